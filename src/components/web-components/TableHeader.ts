@@ -1,14 +1,22 @@
 /// <reference path="../../types/global.d.ts" />
-import { LitElement, html } from "lit";
+import { LitElement, html, nothing } from "lit";
 import { customElement } from "lit/decorators/custom-element.js";
 import { property } from "lit/decorators/property.js";
-import { buildUrl, type UrlParams } from "../../lib/url-utils";
+import {
+  buildUrl,
+  formatSortParams,
+  parseSortParams,
+  parseCursorParams,
+  type UrlParams,
+} from "../../lib/url-utils";
 import type { HtmxRequest } from "../../types/global";
+import type { SortKey } from "../../types";
 import {
   DEBOUNCE_DELAY,
   DEFAULT_PAGE_SIZE,
   DEFAULT_PAGE,
 } from "../../lib/constants";
+import { CURRENCY } from "../../lib/config";
 
 @customElement("table-header")
 export class TableHeader extends LitElement {
@@ -23,26 +31,42 @@ export class TableHeader extends LitElement {
   @property({ type: String, attribute: "label" }) label: string = "";
   @property({ type: String, attribute: "field" }) field:
     | "name"
+    | "category"
     | "price"
-    | "quantity" = "name";
+    | "quantity"
+    | "subtotal" = "name";
   @property({ type: Boolean, attribute: "searchable", reflect: true })
   searchable = false;
+  // Comma-separated sort keys, e.g. sort-by="category,price" sort-dir="asc,desc"
   @property({ type: String, attribute: "sort-by" }) sortBy: string = "id";
-  @property({ type: String, attribute: "sort-dir" }) sortDir: "asc" | "desc" =
-    "asc";
+  @property({ type: String, attribute: "sort-dir" }) sortDir: string = "asc";
   @property({ type: String, attribute: "search-term" }) searchTerm: string = "";
   @property({ type: String }) limit: string = String(DEFAULT_PAGE_SIZE);
+  @property({ type: String, attribute: "search-error" }) searchError: string =
+    "";
+  // Numeric columns get min/max range filters
+  @property({ type: Boolean, attribute: "filterable", reflect: true })
+  filterable = false;
+  @property({ type: String, attribute: "min-value" }) minValue: string = "";
+  @property({ type: String, attribute: "max-value" }) maxValue: string = "";
+
+  // URL params for this column's range filter, e.g. minPrice/maxPrice
+  private get rangeParams(): { min: string; max: string } {
+    const suffix = this.field === "quantity" ? "Quantity" : "Price";
+    return { min: `min${suffix}`, max: `max${suffix}` };
+  }
 
   private restoreFocusFromGlobal() {
     if (typeof window === "undefined") return;
     const f = window.__th_focus;
     if (!f || f.field !== this.field) return;
     const input = this.querySelector(
-      'input[name="searchTerm"]',
+      `input[name="${f.input ?? "searchTerm"}"]`,
     ) as HTMLInputElement | null;
     if (input) {
       input.focus();
-      if (typeof f.caretPos === "number") {
+      // Number inputs don't support selection ranges
+      if (typeof f.caretPos === "number" && input.type !== "number") {
         const p = Math.min(f.caretPos, input.value.length);
         input.setSelectionRange(p, p);
       }
@@ -58,23 +82,56 @@ export class TableHeader extends LitElement {
     this.restoreFocusFromGlobal();
   }
 
+  // Every URL built here goes back to the first page; in cursor mode that is
+  // an empty ?after= rather than page=1
   private buildUrlWithParams(params: UrlParams): string {
-    return buildUrl(params);
+    const search =
+      typeof window !== "undefined" ? window.location.search : "";
+    const cursor = parseCursorParams(new URLSearchParams(search));
+    return buildUrl(
+      cursor ? { ...params, after: "", before: null, through: null } : params,
+    );
+  }
+
+  private get sortKeys(): SortKey[] {
+    return parseSortParams(this.sortBy, this.sortDir);
   }
 
-  private getSortUrl(): string {
-    const dir =
-      this.sortBy === this.field && this.sortDir === "asc" ? "desc" : "asc";
+  // Plain click sorts by this column alone, toggling it if it is already the
+  // primary key. Shift-click adds it as a secondary key, or toggles it in place.
+  private nextSortKeys(additive: boolean): SortKey[] {
+    const keys = this.sortKeys;
+    const current = keys.find((key) => key.field === this.field);
+    const toggled = current?.order === "asc" ? "desc" : "asc";
+
+    if (!additive) {
+      const primary = keys[0]?.field === this.field;
+      return [{ field: this.field, order: primary ? toggled : "asc" }];
+    }
+    if (current) {
+      return keys.map((key) =>
+        key === current ? { field: key.field, order: toggled } : key,
+      );
+    }
+    return [...keys, { field: this.field, order: "asc" }];
+  }
+
+  private getSortUrl(additive = false): string {
+    const { sortBy, sortOrder } = formatSortParams(this.nextSortKeys(additive));
     return this.buildUrlWithParams({
-      sortBy: this.field,
-      sortOrder: dir,
+      sortBy,
+      sortOrder,
       page: DEFAULT_PAGE,
       limit: Number(this.limit),
       searchTerm: this.searchTerm,
     });
   }
 
-  private updateTable(path: string, caretPos?: number | null) {
+  private updateTable(
+    path: string,
+    caretPos?: number | null,
+    inputName?: string,
+  ) {
     if (typeof window === "undefined") return;
     const h = window.htmx;
     if (!h) return;
@@ -87,7 +144,7 @@ export class TableHeader extends LitElement {
     }
 
     if (typeof caretPos !== "undefined") {
-      window.__th_focus = { field: this.field, caretPos };
+      window.__th_focus = { field: this.field, caretPos, input: inputName };
     }
 
     this.currentRequest = h.ajax("GET", path, {
@@ -98,10 +155,10 @@ export class TableHeader extends LitElement {
     });
   }
 
-  private onSort(e: Event) {
+  private onSort(e: MouseEvent) {
     if (typeof window === "undefined") return;
     e.preventDefault();
-    const url = this.getSortUrl();
+    const url = this.getSortUrl(e.shiftKey);
     const selector = `table-header[field="${this.field}"] input[name="searchTerm"]`;
     const input = document.querySelector(selector) as HTMLInputElement | null;
     const pos = input ? (input.selectionStart ?? input.value.length) : null;
@@ -146,15 +203,75 @@ export class TableHeader extends LitElement {
     }, DEBOUNCE_DELAY);
   }
 
+  private onRangeInput(e: Event) {
+    const input = e.target as HTMLInputElement;
+    if (input.name === this.rangeParams.min) this.minValue = input.value;
+    else this.maxValue = input.value;
+    if (typeof window === "undefined") return;
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = window.setTimeout(() => {
+      // Other filters and the sort stay as they are in the current URL
+      const url = this.buildUrlWithParams({
+        [this.rangeParams.min]: this.minValue,
+        [this.rangeParams.max]: this.maxValue,
+        page: DEFAULT_PAGE,
+      });
+      this.updateTable(url, null, input.name);
+      this.debounceTimer = null;
+    }, DEBOUNCE_DELAY);
+  }
+
+  private renderRangeFilter() {
+    const { min, max } = this.rangeParams;
+    const step = this.field === "quantity" ? "1" : "0.01";
+    // Price bounds are compared in the base currency, not the display one
+    const unit = this.field === "quantity" ? "" : ` ${CURRENCY.BASE}`;
+    const style =
+      "padding: 0.25rem 0.5rem; border: 1px solid #d1d5db; font-size: 0.75rem; width: 4.5rem;";
+    return html`
+      <div
+        id="table-header-filter-${this.field}"
+        style="display: flex; gap: 0.25rem; justify-content: flex-end; margin-top: 0.25rem;"
+      >
+        <input
+          name=${min}
+          type="number"
+          min="0"
+          step=${step}
+          style=${style}
+          placeholder="Min${unit}"
+          .value=${this.minValue}
+          @input=${this.onRangeInput}
+          aria-label="Minimum ${this.label.toLowerCase()}${unit && ` in${unit}`}"
+        />
+        <input
+          name=${max}
+          type="number"
+          min="0"
+          step=${step}
+          style=${style}
+          placeholder="Max${unit}"
+          .value=${this.maxValue}
+          @input=${this.onRangeInput}
+          aria-label="Maximum ${this.label.toLowerCase()}${unit && ` in${unit}`}"
+        />
+      </div>
+    `;
+  }
+
   render() {
-    const up = this.sortBy === this.field && this.sortDir === "asc";
-    const down = this.sortBy === this.field && this.sortDir === "desc";
+    const keys = this.sortKeys;
+    const index = keys.findIndex((key) => key.field === this.field);
+    const up = index !== -1 && keys[index].order === "asc";
+    const down = index !== -1 && keys[index].order === "desc";
+    // Priority numbers only matter once more than one column is sorted
+    const priority = index !== -1 && keys.length > 1 ? index + 1 : null;
 
     return html`
       <div
         id="table-header-sort-${this.field}"
-        style="display: flex; align-items: center; gap: 0.5rem; ${this.label ===
-        "Name"
+        style="display: flex; align-items: center; gap: 0.5rem; ${this.field ===
+          "name" || this.field === "category"
           ? "justify-content: flex-start;"
           : "justify-content: flex-end;"}"
       >
@@ -163,6 +280,7 @@ export class TableHeader extends LitElement {
           href=${this.getSortUrl()}
           @click=${this.onSort}
           aria-label="Sort by ${this.label}"
+          title="Shift-click to add as a secondary sort"
         >
           <span>${this.label}</span>
           <span
@@ -175,6 +293,13 @@ export class TableHeader extends LitElement {
               >${down ? "▼" : "▽"}</span
             >
           </span>
+          ${priority
+            ? html`<sup
+                style="margin-left: 0.125rem; font-size: 0.625rem; color: #6366f1;"
+                aria-label="sort priority ${priority}"
+                >${priority}</sup
+              >`
+            : null}
         </a>
         ${this.searchable
           ? html`
@@ -195,11 +320,28 @@ export class TableHeader extends LitElement {
                   @input=${this.onSearchInput}
                   @keyup=${this.onSearchKeyUp}
                   aria-label="Search by ${this.label.toLowerCase()}"
+                  aria-invalid=${this.searchError ? "true" : "false"}
+                  aria-describedby=${this.searchError
+                    ? `table-header-error-${this.field}`
+                    : nothing}
+                  title="Try: lamp -usb, name:&quot;desk lamp&quot;, qty:<5, price:100..500 (in ${CURRENCY.BASE}), hub OR lamp"
                 />
               </form>
             `
           : null}
       </div>
+      ${this.searchable && this.searchError
+        ? html`
+            <div
+              id="table-header-error-${this.field}"
+              role="alert"
+              style="margin-top: 0.25rem; font-size: 0.75rem; font-weight: normal; text-transform: none; color: #dc2626;"
+            >
+              ${this.searchError}
+            </div>
+          `
+        : null}
+      ${this.filterable ? this.renderRangeFilter() : null}
     `;
   }
 }
@@ -1,17 +1,65 @@
+import { STATUS_CODES } from 'node:http';
+import {
+  parseField,
+  type FieldValue,
+  type ParseOptions,
+  type ProductField,
+} from './product-schema';
+import { EDIT_CELL_PREFIXES } from './constants';
+import type { EditableField } from './store';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// Messages often echo what was submitted, and retargeted error bodies are
+// swapped into the page as HTML
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+function createHtmlResponse(body: string, status: number): Response {
+  return new Response(body, {
+    status,
+    headers: { 'Content-Type': 'text/html' },
+  });
+}
+
+// `message` is plain text; it is escaped before being sent
 export function createErrorResponse(
   message: string,
   status: number = 500
 ): Response {
-  return new Response(message, {
-    status,
-    headers: { 'Content-Type': 'text/html' },
-  });
+  return createHtmlResponse(escapeHtml(message), status);
+}
+
+// An alert fragment around a plain-text `message`
+export function createAlertResponse(
+  message: string,
+  status: number,
+  tone: 'error' | 'warning' = 'error'
+): Response {
+  return createHtmlResponse(
+    `<div class="alert alert-${tone}" role="alert"><span>${escapeHtml(message)}</span></div>`,
+    status
+  );
 }
 
 export function createNotFoundResponse(resource: string = 'Resource'): Response {
   return createErrorResponse(`${resource} not found`, 404);
 }
 
+// 403 body is an alert fragment the client drops into #alert-region
+export function createForbiddenResponse(
+  message: string = 'You do not have permission to do that'
+): Response {
+  return createAlertResponse(message, 403);
+}
+
 export function createValidationErrorResponse(
   field: string,
   value: string | number | FormDataEntryValue | null,
@@ -23,6 +71,20 @@ export function createValidationErrorResponse(
   );
 }
 
+/**
+ * Point an error response at a specific element. The client lets retargeted
+ * error responses swap, so they can render inline (e.g. next to a form).
+ */
+export function withRetarget(
+  response: Response,
+  target: string,
+  swap: string = 'innerHTML'
+): Response {
+  response.headers.set('HX-Retarget', target);
+  response.headers.set('HX-Reswap', swap);
+  return response;
+}
+
 export function createSuccessResponse(content: string): Response {
   return new Response(content, {
     status: 200,
@@ -51,33 +113,59 @@ export function handleApiError(
   return createErrorResponse(message, status);
 }
 
-export function validateNumericInput(
-  value: string | number | FormDataEntryValue | null,
-  fieldName: string,
-  min?: number,
-  max?: number
-): number | Response {
-  const num = Number(value);
-
-  if (isNaN(num)) {
-    return createValidationErrorResponse(fieldName, value, 'must be a number');
-  }
+/**
+ * Reads a submitted product field and checks it against the product schema,
+ * e.g. a price typed the way `options.locale` writes numbers.
+ */
+export function validateProductField<F extends ProductField>(
+  field: F,
+  value: FormDataEntryValue | null,
+  options: ParseOptions = {}
+): FieldValue<F> | Response {
+  const result = parseField(field, typeof value === 'string' ? value : null, options);
+  return result.ok
+    ? result.value
+    : createValidationErrorResponse(field, value, result.message);
+}
 
-  if (min !== undefined && num < min) {
-    return createValidationErrorResponse(
-      fieldName,
-      value,
-      `must be at least ${min}`
-    );
+/**
+ * The version an inline edit was made against. Older pages may not send a
+ * version; those writes are unchecked.
+ */
+export function parseExpectedVersion(formData: FormData): number | undefined | Response {
+  const versionInput = formData.get('version');
+  if (versionInput === null) return undefined;
+  const expectedVersion = Number(versionInput);
+  if (!Number.isInteger(expectedVersion)) {
+    return createErrorResponse(`Error: Invalid version. Received: ${versionInput}`, 400);
   }
+  return expectedVersion;
+}
 
-  if (max !== undefined && num > max) {
-    return createValidationErrorResponse(
-      fieldName,
-      value,
-      `must be at most ${max}`
-    );
-  }
+/**
+ * Sets an Astro.response status along with its reason phrase. The response
+ * starts out as 200 "OK", and changing only the status would send e.g.
+ * "409 OK".
+ */
+export function setResponseStatus(response: ResponseInit, status: number): void {
+  response.status = status;
+  response.statusText = STATUS_CODES[status] ?? '';
+}
 
-  return num;
-}
\ No newline at end of file
+/**
+ * Marks an edit response as a version conflict on `field` of product `id`.
+ * Retargeted so the client swaps the conflict fragment into the cell instead
+ * of letting hx-optimistic revert it, and reselected so only the prompt is
+ * swapped in whatever the request's hx-select asked for.
+ */
+export function conflictResponse(
+  response: ResponseInit & { headers: Headers },
+  field: EditableField,
+  id: number
+): void {
+  const prefix = EDIT_CELL_PREFIXES[field];
+  setResponseStatus(response, 409);
+  response.headers.set('HX-Retarget', `#${prefix}-cell-${id}`);
+  response.headers.set('HX-Reswap', 'innerHTML');
+  response.headers.set('HX-Reselect', `#view-${prefix}-${id}`);
+}
@@ -1,72 +1,353 @@
-import { PAGE_SIZE, getProducts, getAllTotals, type ProductWithCurrency } from "./store";
+import {
+  PAGE_SIZE,
+  getProducts,
+  getProductsByCursor,
+  getProductPage,
+  getAllTotals,
+  getMatchingProducts,
+  getTotals,
+  type GetProductsParams,
+  type GetProductsResult,
+  type ProductWithCurrency,
+} from "./store";
+import type { AuditQuery } from "./audit-log";
+import {
+  parseFilterParams,
+  parseSortParams,
+  formatSortParams,
+  parseCursorParams,
+  type TableState,
+} from "./url-utils";
+import { encodeCursor, decodeCursor, type ProductCursor } from "./cursor";
+import type { AstroCookies } from "astro";
+import { isSearchField, isTableView } from "./type-guards";
+import { PAGINATION, TABLE_VIEW } from "./config";
+import { QuerySyntaxError } from "./query-parser";
 import type { 
+  CategoryFacet,
+  CursorParams,
   ProductTotals,
-  SortOrder,
-  Product,
-  PaginationParams
+  TableTotals,
+  PaginationParams,
+  ProductFilters,
+  SearchField,
+  SortKey,
+  TableView
 } from '../types';
 
 export interface ApiParams {
   page: number;
   pageSize: number;
-  sort: keyof Product | 'subtotal';
-  sortDir: SortOrder;
+  // Comma-separated, as in the sortBy/sortOrder URL params
+  sort: string;
+  sortDir: string;
+  sortKeys: SortKey[];
   searchTerm: string;
-  searchField?: keyof Product;
+  searchField: SearchField;
+  filters: ProductFilters;
+  // Set in cursor mode, where `page` is ignored
+  cursor?: CursorParams;
 }
 
 export interface TableDataResponse {
   data: ProductWithCurrency[];
   total: number;
-  totals: ProductTotals;
+  totals: TableTotals;
   pagination: PaginationParams;
+  facets: CategoryFacet[];
+  // Set when searchTerm is not a valid query; the rows then ignore it
+  searchError?: string;
+  // The view these rows show, for the links and forms around them; `page`
+  // is the page actually returned
+  state: TableState;
+}
+
+// The table state to carry into links and forms, without the parsed sort keys
+export function toTableState(params: ApiParams): TableState {
+  const { page, pageSize, sort, sortDir, searchTerm, searchField, filters, cursor } =
+    params;
+  return { page, pageSize, sort, sortDir, searchTerm, searchField, filters, cursor };
 }
 
 export function parseApiParams(request: Request): ApiParams {
   const url = new URL(request.url);
-  const page: number = Math.max(1, parseInt(url.searchParams.get("page") || "1", 10));
-  const pageSize: number = Math.max(1, Math.min(100, parseInt(url.searchParams.get("limit") || String(PAGE_SIZE), 10)));
-  const sort = (url.searchParams.get("sortBy") || "id") as keyof Product | 'subtotal';
-  const sortDir = (url.searchParams.get("sortOrder") || "asc") as SortOrder;
+  const page: number = Math.max(1, parseInt(url.searchParams.get("page") || "1", 10) || 1);
+  const pageSize: number = Math.max(
+    PAGINATION.MIN_PAGE_SIZE,
+    Math.min(PAGINATION.MAX_PAGE_SIZE, parseInt(url.searchParams.get("limit") || String(PAGE_SIZE), 10) || PAGE_SIZE)
+  );
+  const sortKeys = parseSortParams(url.searchParams.get("sortBy"), url.searchParams.get("sortOrder"));
+  const { sortBy: sort, sortOrder: sortDir } = formatSortParams(sortKeys);
   const searchTerm: string = url.searchParams.get("searchTerm") || "";
-  const searchField = url.searchParams.get("searchField") as keyof Product | undefined;
+  const searchField = url.searchParams.get("searchField");
   return { 
     page, 
     pageSize, 
     sort, 
     sortDir, 
+    sortKeys,
     searchTerm,
-    searchField: searchField || 'name'
+    searchField: isSearchField(searchField) ? searchField : 'name',
+    filters: parseFilterParams(url.searchParams),
+    cursor: parseCursorParams(url.searchParams)
   };
 }
 
-export function getTableData(params: ApiParams): TableDataResponse {
-  const { data, total } = getProducts({
+function toProductsQuery(params: ApiParams): GetProductsParams {
+  return {
     page: params.page,
     pageSize: params.pageSize,
-    sort: params.sort === 'subtotal' ? 'price' : params.sort,
-    sortDir: params.sortDir,
-    searchField: params.searchField || "name",
+    sortKeys: params.sortKeys,
+    searchField: params.searchField,
     searchTerm: params.searchTerm || undefined,
+    filters: params.filters,
+  };
+}
+
+/**
+ * Table state of the page a request was made from. Inline edits PATCH a bare
+ * URL, so fall back to the HX-Current-URL header htmx sends with every request.
+ */
+export function parseViewParams(request: Request): ApiParams {
+  const currentUrl = request.headers.get("HX-Current-URL");
+  if (new URL(request.url).search || !currentUrl) {
+    return parseApiParams(request);
+  }
+  try {
+    return parseApiParams(new Request(currentUrl));
+  } catch {
+    return parseApiParams(request);
+  }
+}
+
+type TableQueryResult = GetProductsResult & {
+  nextCursor?: string | null;
+  prevCursor?: string | null;
+  lastCursor?: string | null;
+  offset?: number;
+};
+
+// One page of rows, by number or by cursor. A cursor that doesn't decode (or
+// was made under another sort) gives the first page.
+function queryPage(params: ApiParams, view: TableView = "pages"): TableQueryResult {
+  if (!params.cursor) return getProducts(toProductsQuery(params));
+
+  const { sortKeys } = params;
+  const decode = (raw?: string) => (raw ? decodeCursor(raw, sortKeys) : null);
+  const result = getProductsByCursor({
+    ...toProductsQuery(params),
+    after: decode(params.cursor.after),
+    before: decode(params.cursor.before),
+    through: decode(params.cursor.through),
+    fillLastPage: view === "pages",
   });
-  
-  const totals = getAllTotals();
-  const totalPages = Math.ceil(total / params.pageSize);
-  
-  const pagination: PaginationParams = {
-    page: params.page,
-    limit: params.pageSize,
-    total,
-    totalPages,
-    hasNext: params.page < totalPages,
-    hasPrev: params.page > 1
+  const encode = (cursor: ProductCursor | null) =>
+    cursor && encodeCursor(cursor, sortKeys);
+  return {
+    ...result,
+    nextCursor: encode(result.nextCursor),
+    prevCursor: encode(result.prevCursor),
+    lastCursor: encode(result.lastCursor),
   };
+}
+
+// Rows for the view, falling back to no search when the query is invalid so
+// the table keeps showing something while the header reports the error
+function queryTable(
+  params: ApiParams,
+  view: TableView,
+): TableQueryResult & { searchError?: string } {
+  try {
+    return queryPage(params, view);
+  } catch (e) {
+    if (!(e instanceof QuerySyntaxError)) throw e;
+    const result = queryPage({ ...params, searchTerm: '' }, view);
+    return { ...result, searchError: `${e.message} (at character ${e.position + 1})` };
+  }
+}
+
+/**
+ * Which layout the table uses. A ?view= param switches it and is remembered
+ * in a cookie; API routes have no such param and just read the cookie.
+ */
+export function resolveTableView(url: URL, cookies: AstroCookies): TableView {
+  const requested = url.searchParams.get(TABLE_VIEW.PARAM);
+  if (isTableView(requested)) {
+    cookies.set(TABLE_VIEW.COOKIE, requested, {
+      path: "/",
+      sameSite: "lax",
+      maxAge: TABLE_VIEW.COOKIE_MAX_AGE,
+    });
+    return requested;
+  }
+  const saved = cookies.get(TABLE_VIEW.COOKIE)?.value;
+  return isTableView(saved) ? saved : "pages";
+}
+
+/**
+ * Rows, totals and facets for a table view. A page past the end (e.g. after
+ * its last row was deleted) is clamped to the last page; `pagination.page`
+ * is the page actually returned. Cursor mode never clamps: the cursor
+ * already lands on the nearest rows that exist. The scrolling view always
+ * reads by cursor, starting from the first row, and gets no rows once its
+ * cursor has passed the last one.
+ */
+export function getTableData(
+  requested: ApiParams,
+  view: TableView = "pages"
+): TableDataResponse {
+  const params: ApiParams =
+    view === "scroll" && !requested.cursor
+      ? { ...requested, cursor: { after: "" } }
+      : requested;
+  let result = queryTable(params, view);
+  const totalPages = Math.max(1, Math.ceil(result.total / params.pageSize));
+  const page = params.cursor ? params.page : Math.min(params.page, totalPages);
+  if (page !== params.page) {
+    result = queryTable({ ...params, page }, view);
+  }
+
+  const {
+    data,
+    total,
+    totals: filtered,
+    searchError,
+    nextCursor,
+    prevCursor,
+    lastCursor,
+    offset,
+    facets
+  } = result;
+
+  const totals: TableTotals = { filtered, all: getAllTotals() };
+  
+  const pagination: PaginationParams = params.cursor
+    ? {
+        page,
+        limit: params.pageSize,
+        total,
+        totalPages,
+        hasNext: Boolean(nextCursor),
+        hasPrev: Boolean(prevCursor),
+        nextCursor,
+        prevCursor,
+        lastCursor,
+        offset
+      }
+    : {
+        page,
+        limit: params.pageSize,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      };
 
   return { 
     data, 
     total, 
     totals,
-    pagination
+    pagination,
+    facets,
+    searchError,
+    state: { ...toTableState(requested), page },
   };
 }
 
+// The page a product appears on in the current view, falling back to the
+// requested page when the product doesn't match the active search
+export function findProductPage(id: number, params: ApiParams): number {
+  try {
+    return getProductPage(id, toProductsQuery(params)) ?? params.page;
+  } catch (e) {
+    if (e instanceof QuerySyntaxError) return params.page;
+    throw e;
+  }
+}
+
+// Ids of every row in the view across all pages, for "select all" batch
+// actions. An invalid search is ignored, as the table itself ignores it.
+export function getMatchingIds(params: ApiParams): number[] {
+  const query = toProductsQuery(params);
+  let rows: ProductWithCurrency[];
+  try {
+    rows = getMatchingProducts(query);
+  } catch (e) {
+    if (!(e instanceof QuerySyntaxError)) throw e;
+    rows = getMatchingProducts({ ...query, searchTerm: undefined });
+  }
+  return rows.map((product) => product.id);
+}
+
+export type ExportFormat = 'csv' | 'json';
+export type ExportScope = 'page' | 'all';
+
+export interface ExportParams extends ApiParams {
+  format: ExportFormat;
+  scope: ExportScope;
+}
+
+export interface ExportData {
+  data: ProductWithCurrency[];
+  // Totals of the exported rows, not the whole inventory
+  totals: ProductTotals;
+}
+
+// Returns null when format or scope is not one we support
+export function parseExportParams(request: Request): ExportParams | null {
+  const url = new URL(request.url);
+  const format = url.searchParams.get("format") || "csv";
+  const scope = url.searchParams.get("scope") || "page";
+  if ((format !== "csv" && format !== "json") || (scope !== "page" && scope !== "all")) {
+    return null;
+  }
+  return { ...parseApiParams(request), format, scope };
+}
+
+export function getExportData(params: ExportParams): ExportData {
+  const data = params.scope === 'all'
+    ? getMatchingProducts(toProductsQuery(params))
+    : queryPage(params).data;
+  return { data, totals: getTotals(data) };
+}
+
+export interface AuditParams {
+  page: number;
+  pageSize: number;
+  username: string;
+  productId?: number;
+  // yyyy-mm-dd, as submitted by <input type="date">
+  from: string;
+  to: string;
+}
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+
+export function parseAuditParams(request: Request): AuditParams {
+  const url = new URL(request.url);
+  const page: number = Math.max(1, parseInt(url.searchParams.get("page") || "1", 10) || 1);
+  const pageSize: number = Math.max(1, Math.min(100, parseInt(url.searchParams.get("limit") || String(PAGE_SIZE), 10) || PAGE_SIZE));
+  const productId = parseInt(url.searchParams.get("productId") || "", 10);
+  const from = url.searchParams.get("from") || "";
+  const to = url.searchParams.get("to") || "";
+  return {
+    page,
+    pageSize,
+    username: url.searchParams.get("user") || "",
+    productId: Number.isNaN(productId) ? undefined : productId,
+    from: DATE_PARAM.test(from) ? from : "",
+    to: DATE_PARAM.test(to) ? to : "",
+  };
+}
+
+// Date filters are whole days in server time; `to` includes the entire day
+export function toAuditQuery(params: AuditParams): AuditQuery {
+  return {
+    page: params.page,
+    pageSize: params.pageSize,
+    username: params.username || undefined,
+    productId: params.productId,
+    from: params.from ? new Date(`${params.from}T00:00:00`) : undefined,
+    to: params.to ? new Date(`${params.to}T23:59:59.999`) : undefined,
+  };
+}
@@ -0,0 +1,126 @@
+// Append-only audit trail of product mutations
+import type { ProductMutation, UpdatedField } from "./store";
+import type { CurrencyCode, Product } from "../types";
+import { PERSISTENCE } from "./server-config";
+import { createAppendLog, reviveDates } from "./repositories";
+
+export type AuditAction = "create" | "update" | "delete" | "restore";
+
+export interface AuditEntry {
+  id: number;
+  action: AuditAction;
+  productId: number;
+  productName: string;
+  // The product's currency at the time; price values are minor units of it
+  currency: CurrencyCode;
+  field: UpdatedField | null;
+  oldValue: number | string | null;
+  newValue: number | string | null;
+  userId: number | null;
+  username: string;
+  timestamp: Date;
+}
+
+export interface AuditQuery {
+  page: number;
+  pageSize: number;
+  username?: string;
+  productId?: number;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditQueryResult {
+  data: AuditEntry[];
+  total: number;
+}
+
+export const ANONYMOUS_USERNAME = "anonymous";
+
+// Persisted beside the products and loaded once at startup
+const log = createAppendLog<Readonly<AuditEntry>>(
+  PERSISTENCE,
+  "audit_log",
+  (raw) => Object.freeze(reviveDates(raw, ["timestamp"]) as unknown as AuditEntry),
+);
+
+// Entries are frozen and never removed, so the log can only grow
+const entries: Readonly<AuditEntry>[] = log.list();
+
+function append(entry: Omit<AuditEntry, "id" | "timestamp">): void {
+  const saved = Object.freeze({
+    ...entry,
+    id: entries.length + 1,
+    timestamp: new Date(),
+  });
+  log.append(saved);
+  entries.push(saved);
+}
+
+// Null for a reorder threshold that is not set
+function fieldValue(product: Product, field: UpdatedField): number | string | null {
+  return field === "price" ? product.price.minor : (product[field] ?? null);
+}
+
+/**
+ * Mutation listener registered by the store; turns each change into an entry.
+ */
+export function recordAuditEntry(mutation: ProductMutation): void {
+  const { product, actor } = mutation;
+  const base = {
+    productId: product.id,
+    productName: product.name,
+    currency: product.price.currency,
+    userId: actor?.userId ?? null,
+    username: actor?.username ?? ANONYMOUS_USERNAME,
+  };
+
+  switch (mutation.type) {
+    case "created":
+      append({ ...base, action: "create", field: null, oldValue: null, newValue: null });
+      break;
+    case "updated":
+      append({
+        ...base,
+        action: "update",
+        field: mutation.field,
+        oldValue: fieldValue(mutation.previous, mutation.field),
+        newValue: fieldValue(product, mutation.field),
+      });
+      break;
+    case "deleted":
+      append({ ...base, action: "delete", field: null, oldValue: null, newValue: null });
+      break;
+    case "restored":
+      append({ ...base, action: "restore", field: null, oldValue: null, newValue: null });
+      break;
+  }
+}
+
+// Newest first
+export function getAuditEntries(query: AuditQuery): AuditQueryResult {
+  const { page, pageSize, username, productId, from, to } = query;
+  const rows = entries
+    .filter(
+      (entry) =>
+        (!username || entry.username === username) &&
+        (productId === undefined || entry.productId === productId) &&
+        (!from || entry.timestamp >= from) &&
+        (!to || entry.timestamp <= to),
+    )
+    .reverse();
+
+  const start = (page - 1) * pageSize;
+  return { data: rows.slice(start, start + pageSize), total: rows.length };
+}
+
+export function getProductAuditEntries(
+  productId: number,
+  limit: number,
+): AuditEntry[] {
+  return getAuditEntries({ page: 1, pageSize: limit, productId }).data;
+}
+
+export function getAuditUsernames(): string[] {
+  return [...new Set(entries.map((entry) => entry.username))].sort();
+}
@@ -1,4 +1,5 @@
 // Configuration constants for the application
+import type { CurrencyCode } from '../types';
 
 export const VALIDATION_RULES = {
   // Price validation rules
@@ -9,16 +10,110 @@ export const VALIDATION_RULES = {
   // Quantity validation rules
   MIN_QUANTITY: 0,
   MAX_QUANTITY: 999999,
+
+  // Name validation rules
+  MAX_NAME_LENGTH: 80,
+
+  // Category validation rules; commas separate categories in the URL
+  MAX_CATEGORY_LENGTH: 40,
+  FORBIDDEN_CATEGORY_CHAR: ',',
+} as const;
+
+export const PRODUCT_DEFAULTS = {
+  CATEGORY: 'Electronics',
+} as const;
+
+export const CURRENCY = {
+  BASE: 'USD', // totals and cross-currency comparisons are worked out in this
+  // Units of each currency one BASE unit buys; maintained by hand, no feed
+  RATES: {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+  } satisfies Record<CurrencyCode, number>,
+  DEFAULT_LOCALE: 'en-US',
+  LOCALES: ['en-US', 'en-GB', 'de-DE', 'fr-FR'], // choices in the header
+  COOKIE: 'display-currency',
+  LOCALE_COOKIE: 'display-locale',
+  COOKIE_MAX_AGE: 60 * 60 * 24 * 365, // seconds
+} as const;
+
+export const REORDER = {
+  DEFAULT_THRESHOLD: 5, // reorder below this many unless overridden
+  // Per-category thresholds; a product's own reorderThreshold wins over these
+  CATEGORY_THRESHOLDS: {
+    Displays: 3,
+    Networking: 4,
+    Accessories: 8,
+  } as Readonly<Record<string, number>>,
+  RESTOCK_MULTIPLIER: 2, // suggested orders bring stock up to twice the threshold
 } as const;
 
 export const PAGINATION = {
   DEFAULT_PAGE_SIZE: 10,
   MIN_PAGE_SIZE: 1,
   MAX_PAGE_SIZE: 100,
+  PAGE_SIZE_OPTIONS: [10, 25, 50, 100], // choices in the page-size dropdown
+  PAGE_LINK_SIBLINGS: 1, // numbered links either side of the current page
+} as const;
+
+export const AUDIT_LOG = {
+  POPOVER_LIMIT: 5, // most recent entries shown in a row's history popover
+} as const;
+
+export const PRICE_HISTORY = {
+  SPARKLINE_POINTS: 12, // most recent prices drawn in a row's sparkline
+} as const;
+
+export const SEARCH_QUERY = {
+  MAX_LENGTH: 500, // characters in a search box query
+  MAX_DEPTH: 32, // nested groups and negations; deeper queries are rejected
+} as const;
+
+export const UNDO = {
+  WINDOW_MS: 60_000, // how long a delete or edit can be undone
+  MAX_ENTRIES: 100,
+} as const;
+
+export const TOMBSTONES = {
+  RETENTION_MS: 24 * 60 * 60_000, // deleted products are purged after this; keep it above UNDO.WINDOW_MS
+} as const;
+
+export const CSV_EXPORT = {
+  TOTALS_LABEL: 'Totals', // first cell of the footer row; skipped on import
+} as const;
+
+export const IMPORT = {
+  MAX_BYTES: 5 * 1024 * 1024,
+  MAX_ROWS: 10_000,
+  PREVIEW_LIMIT: 200, // rows listed in the dry-run table; rejects always shown
+  PLAN_TTL_MS: 15 * 60_000, // how long a previewed import can be confirmed
+} as const;
+
+export const BATCH = {
+  MAX_ROWS: 10_000, // rows one batch action may touch, "select all" included
+  MIN_PRICE_PERCENT: -100,
+  MAX_PRICE_PERCENT: 1000,
+  SUMMARY_LIMIT: 20, // rows listed by name in the result summary
+} as const;
+
+export const LIVE_EVENTS = {
+  URL: '/api/events',
+  HEARTBEAT_MS: 25_000, // keeps idle proxies from closing the stream
+  RETRY_MS: 3000, // how long browsers wait before reconnecting
+  REPLAY_LIMIT: 500, // recent events kept for streams that reconnect
+} as const;
+
+export const TABLE_VIEW = {
+  PARAM: 'view', // ?view=scroll switches the table and saves the choice
+  COOKIE: 'table-view',
+  COOKIE_MAX_AGE: 60 * 60 * 24 * 365, // seconds
 } as const;
 
 export const UI_CONSTANTS = {
   DEBOUNCE_DELAY: 300, // milliseconds for search input debounce
+  ALERT_TIMEOUT: 5000, // milliseconds before a server alert is dismissed
+  UNDO_TOAST_TIMEOUT: 10000, // milliseconds the undo toast stays on screen
   DEFAULT_PAGE: 1,
 } as const;
 
@@ -1,18 +1,57 @@
 // Import from centralized config
-import { UI_CONSTANTS, PAGINATION, API_DEFAULTS } from './config';
+import { UI_CONSTANTS, PAGINATION, API_DEFAULTS, LIVE_EVENTS } from './config';
+import type { CursorParams, ProductFilters } from '../types';
 
 // Pagination constants
 export const DEFAULT_PAGE = UI_CONSTANTS.DEFAULT_PAGE;
 export const DEFAULT_PAGE_SIZE = PAGINATION.DEFAULT_PAGE_SIZE;
+export const MIN_PAGE_SIZE = PAGINATION.MIN_PAGE_SIZE;
 export const MAX_PAGE_SIZE = PAGINATION.MAX_PAGE_SIZE;
 
 // Sort constants
 export const DEFAULT_SORT_BY = API_DEFAULTS.DEFAULT_SORT_FIELD;
 export const DEFAULT_SORT_ORDER = API_DEFAULTS.DEFAULT_SORT_ORDER;
+export const DEFAULT_SEARCH_FIELD = API_DEFAULTS.DEFAULT_SEARCH_FIELD;
+
+// Filter URL params, split by how they are parsed
+export const TEXT_FILTER_PARAMS = [
+  'nameContains',
+  'categoryContains',
+  'descriptionContains',
+] as const satisfies readonly (keyof ProductFilters)[];
+export const RANGE_FILTER_PARAMS = [
+  'minPrice',
+  'maxPrice',
+  'minQuantity',
+  'maxQuantity',
+] as const satisfies readonly (keyof ProductFilters)[];
+export const FILTER_PARAMS = [...TEXT_FILTER_PARAMS, ...RANGE_FILTER_PARAMS];
+// Selected facet categories, comma-separated: category=Audio,Lighting
+export const CATEGORY_FILTER_PARAM = 'category';
+// Set to 1 to show only products below their reorder threshold
+export const LOW_STOCK_FILTER_PARAM = 'lowStock';
+// Keyset paging params; see CursorParams
+export const CURSOR_PARAMS = [
+  'after',
+  'before',
+  'through',
+] as const satisfies readonly (keyof CursorParams)[];
+
+// Inline edit cells are #<prefix>-cell-<id>, showing #view-<prefix>-<id>
+export const EDIT_CELL_PREFIXES = {
+  price: 'price',
+  quantity: 'qty',
+  category: 'cat',
+} as const;
 
 // UI constants
 export const DEBOUNCE_DELAY = UI_CONSTANTS.DEBOUNCE_DELAY;
 export const SWAP_DELAY = 500; // milliseconds for HTMX swap animations
+export const ALERT_TIMEOUT = UI_CONSTANTS.ALERT_TIMEOUT;
+export const UNDO_TOAST_TIMEOUT = UI_CONSTANTS.UNDO_TOAST_TIMEOUT;
+
+// Live updates
+export const LIVE_EVENTS_URL = LIVE_EVENTS.URL;
 
 // Table state defaults
 export const TABLE_DEFAULTS = {
@@ -23,5 +62,6 @@ export const TABLE_DEFAULTS = {
   searchTerm: '',
 } as const;
 
-// Re-export the PAGE_SIZE for backward compatibility
-export { PAGE_SIZE } from './store';
\ No newline at end of file
+// Kept for backward compatibility. Defined here rather than re-exported from
+// store.ts so client bundles never pull in the server-side store.
+export const PAGE_SIZE = DEFAULT_PAGE_SIZE;
\ No newline at end of file
@@ -0,0 +1,108 @@
+// RFC 4180 CSV encoding
+
+export type CsvValue = string | number | null | undefined;
+
+// Spreadsheet apps evaluate cells starting with these as formulas. Text that
+// already starts with quotes before one is guarded too, so that stripping a
+// single quote on import always gives back the original value.
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+
+export function escapeCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+// Undoes the quote escapeCsvField puts in front of formula-like text
+export function stripFormulaGuard(field: string): string {
+  return field.startsWith("'") && FORMULA_PREFIX.test(field.slice(1))
+    ? field.slice(1)
+    : field;
+}
+
+export function toCsvRow(fields: CsvValue[]): string {
+  return fields.map(escapeCsvField).join(",");
+}
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(toCsvRow).join("\r\n") + "\r\n";
+}
+
+export class CsvParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+  ) {
+    super(`${message} (line ${line})`);
+    this.name = "CsvParseError";
+  }
+}
+
+/**
+ * Parse CSV text arriving in chunks, yielding one array of fields per record.
+ * Quoted fields may span chunks and lines; only the current record is held
+ * in memory.
+ */
+export async function* parseCsvStream(
+  chunks: AsyncIterable<string>,
+): AsyncGenerator<string[]> {
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // Saw a quote inside a quoted field: either an escaped "" or the closing one
+  let quotePending = false;
+  let line = 1;
+  let recordStart = 1;
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        } else {
+          if (char === '"') {
+            quotePending = true;
+          } else {
+            if (char === "\n") line++;
+            field += char;
+          }
+          continue;
+        }
+      }
+
+      if (char === '"' && field === "") {
+        inQuotes = true;
+      } else if (char === ",") {
+        row.push(field);
+        field = "";
+      } else if (char === "\n") {
+        row.push(field);
+        yield row;
+        row = [];
+        field = "";
+        line++;
+        recordStart = line;
+      } else if (char !== "\r") {
+        field += char;
+      }
+    }
+  }
+
+  if (inQuotes && !quotePending) {
+    throw new CsvParseError("Unterminated quoted field", recordStart);
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    yield row;
+  }
+}
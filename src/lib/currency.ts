@@ -0,0 +1,69 @@
+// Currency conversion and the currency/locale each user sees money in
+import type { AstroCookies } from "astro";
+import type { CurrencyCode, DisplayPreferences, Money, Product } from "../types";
+import type { JWTPayload } from "./jwt";
+import { CURRENCY } from "./config";
+import { isCurrencyCode } from "./type-guards";
+import { money, multiplyMoney } from "./money";
+
+export const CURRENCY_CODES = Object.keys(CURRENCY.RATES) as CurrencyCode[];
+
+// Rounded to the nearest minor unit of the target currency
+export function convertMoney(amount: Money, to: CurrencyCode): Money {
+  if (amount.currency === to) return amount;
+  return money(
+    Math.round((amount.minor / CURRENCY.RATES[amount.currency]) * CURRENCY.RATES[to]),
+    to,
+  );
+}
+
+export function toBaseMoney(amount: Money): Money {
+  return convertMoney(amount, CURRENCY.BASE);
+}
+
+// Price filters, sorting, search and totals compare products by these, so
+// a euro price ranks against a dollar one at today's rate
+export function getBasePrice(product: Product): Money {
+  return toBaseMoney(product.price);
+}
+
+// Converted once per row, so totals are exact sums of what each row shows
+export function getBaseSubtotal(product: Product): Money {
+  return toBaseMoney(multiplyMoney(product.price, product.quantity));
+}
+
+export function isSupportedLocale(value: unknown): value is string {
+  return (CURRENCY.LOCALES as readonly unknown[]).includes(value);
+}
+
+/**
+ * The currency and locale to show money in: a saved cookie wins, then the
+ * user's JWT claims, then the configured defaults.
+ */
+export function resolveDisplayPreferences(
+  cookies: AstroCookies,
+  jwt: JWTPayload | null,
+): DisplayPreferences {
+  return {
+    currency:
+      [cookies.get(CURRENCY.COOKIE)?.value, jwt?.currency].find(isCurrencyCode) ??
+      CURRENCY.BASE,
+    locale:
+      [cookies.get(CURRENCY.LOCALE_COOKIE)?.value, jwt?.locale].find(
+        isSupportedLocale,
+      ) ?? CURRENCY.DEFAULT_LOCALE,
+  };
+}
+
+export function saveDisplayPreferences(
+  cookies: AstroCookies,
+  preferences: DisplayPreferences,
+): void {
+  const options = {
+    path: "/",
+    sameSite: "lax",
+    maxAge: CURRENCY.COOKIE_MAX_AGE,
+  } as const;
+  cookies.set(CURRENCY.COOKIE, preferences.currency, options);
+  cookies.set(CURRENCY.LOCALE_COOKIE, preferences.locale, options);
+}
@@ -0,0 +1,59 @@
+// Opaque keyset cursors for `?after=` / `?before=` paging
+import type { SortKey } from "../types";
+
+// Sort values of the boundary row, in sort key order, plus its id as the
+// final tiebreak
+export interface ProductCursor {
+  values: (string | number)[];
+  id: number;
+}
+
+interface EncodedCursor {
+  s: string;
+  v: (string | number)[];
+  id: number;
+}
+
+// Ties a cursor to the sort it was made for, e.g. "price:desc,name:asc"
+function sortSignature(sortKeys: SortKey[]): string {
+  return sortKeys.map((key) => `${key.field}:${key.order}`).join(",");
+}
+
+export function encodeCursor(cursor: ProductCursor, sortKeys: SortKey[]): string {
+  const encoded: EncodedCursor = {
+    s: sortSignature(sortKeys),
+    v: cursor.values,
+    id: cursor.id,
+  };
+  return Buffer.from(JSON.stringify(encoded)).toString("base64url");
+}
+
+/**
+ * Returns null for a malformed cursor or one made under a different sort, so
+ * the caller can start again from the first page.
+ */
+export function decodeCursor(
+  raw: string,
+  sortKeys: SortKey[],
+): ProductCursor | null {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  if (typeof decoded !== "object" || decoded === null) return null;
+  const { s, v, id } = decoded as Partial<EncodedCursor>;
+  if (
+    s !== sortSignature(sortKeys) ||
+    !Array.isArray(v) ||
+    v.length !== sortKeys.length ||
+    !v.every((value) => typeof value === "string" || typeof value === "number") ||
+    typeof id !== "number" ||
+    !Number.isInteger(id)
+  ) {
+    return null;
+  }
+  return { values: v, id };
+}
@@ -1,6 +1,65 @@
-export function formatCurrency(value: number): string {
-  return new Intl.NumberFormat("en-US", {
+import { CURRENCY } from "./config";
+import { MINOR_DIGITS, toMajor } from "./money";
+import type { CurrencyCode, Money } from "../types";
+
+export function formatCurrency(
+  value: number,
+  currency: CurrencyCode = CURRENCY.BASE,
+  locale: string = CURRENCY.DEFAULT_LOCALE,
+): string {
+  return new Intl.NumberFormat(locale, {
     style: "currency",
-    currency: "USD",
+    currency,
   }).format(value);
 }
+
+export function formatDateTime(value: Date): string {
+  return new Intl.DateTimeFormat("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(value);
+}
+
+// Short form for secondary figures, e.g. $210K
+export function formatCompactCurrency(
+  value: number,
+  currency: CurrencyCode = CURRENCY.BASE,
+  locale: string = CURRENCY.DEFAULT_LOCALE,
+): string {
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(value);
+}
+
+// Signed change from one value to the next, e.g. +12.5%; blank from zero
+export function formatPercentChange(from: number, to: number): string {
+  if (from === 0) return "";
+  const percent = ((to - from) / from) * 100;
+  return `${percent > 0 ? "+" : ""}${percent.toFixed(1)}%`;
+}
+
+export function formatMoney(
+  amount: Money,
+  locale: string = CURRENCY.DEFAULT_LOCALE,
+): string {
+  return formatCurrency(toMajor(amount), amount.currency, locale);
+}
+
+export function formatCompactMoney(
+  amount: Money,
+  locale: string = CURRENCY.DEFAULT_LOCALE,
+): string {
+  return formatCompactCurrency(toMajor(amount), amount.currency, locale);
+}
+
+// A price as typed into an input in `locale`: no grouping, e.g. 1234,50
+export function formatPriceInput(price: Money, locale: string): string {
+  return new Intl.NumberFormat(locale, {
+    useGrouping: false,
+    minimumFractionDigits: MINOR_DIGITS,
+    maximumFractionDigits: MINOR_DIGITS,
+  }).format(toMajor(price));
+}
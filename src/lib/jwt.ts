@@ -0,0 +1,221 @@
+// JWT verification (HS256 and RS256) for the auth middleware
+import crypto from "node:crypto";
+import fs from "node:fs";
+import { isJWTPayload } from "./type-guards";
+
+export interface JWTPayload {
+  userId: number;
+  email: string;
+  username: string;
+  role: "admin" | "user";
+  // Optional display defaults; a currency or locale cookie overrides them
+  currency?: string;
+  locale?: string;
+  exp: number;
+  iat: number;
+  nbf?: number;
+  iss?: string;
+  aud?: string | string[];
+}
+
+export interface JWTVerifyOptions {
+  // HS256 secrets keyed by `kid`; tokens without a kid use the "default" key
+  hmacKeys: Record<string, string>;
+  // Path to a local JWKS file holding RS256 public keys
+  jwksPath?: string;
+  issuer?: string;
+  audience?: string;
+  clockToleranceSeconds?: number;
+}
+
+interface JWTHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+interface JsonWebKeySet {
+  keys: (crypto.JsonWebKey & { kid?: string; use?: string; alg?: string })[];
+}
+
+const DEFAULT_HMAC_KID = "default";
+
+export class JWTVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JWTVerificationError";
+  }
+}
+
+function decodeSegment(segment: string): Buffer {
+  return Buffer.from(segment, "base64url");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Both segments must decode to JSON objects; `null` or `[]` parse fine but
+// have no fields to read
+function parseSegment<T>(segment: string, label: string): T {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(decodeSegment(segment).toString("utf8"));
+  } catch {
+    throw new JWTVerificationError(`Malformed token ${label}`);
+  }
+  if (!isPlainObject(parsed)) {
+    throw new JWTVerificationError(`Malformed token ${label}`);
+  }
+  return parsed as T;
+}
+
+// Re-read the JWKS file whenever it changes so rotated keys are picked up
+// without a restart
+let jwksCache: { path: string; mtimeMs: number; jwks: JsonWebKeySet } | null =
+  null;
+
+// A missing or broken JWKS file rejects RS256 tokens rather than failing
+// the request
+function loadJwks(path: string): JsonWebKeySet {
+  let mtimeMs: number;
+  let jwks: JsonWebKeySet;
+  try {
+    ({ mtimeMs } = fs.statSync(path));
+    if (jwksCache && jwksCache.path === path && jwksCache.mtimeMs === mtimeMs) {
+      return jwksCache.jwks;
+    }
+    jwks = JSON.parse(fs.readFileSync(path, "utf8")) as JsonWebKeySet;
+  } catch (error) {
+    console.error(`Could not read JWKS file ${path}:`, error);
+    throw new JWTVerificationError("RS256 keys are unavailable");
+  }
+  if (!isPlainObject(jwks) || !Array.isArray(jwks.keys)) {
+    console.error(`JWKS file ${path} must contain a "keys" array`);
+    throw new JWTVerificationError("RS256 keys are unavailable");
+  }
+  jwksCache = { path, mtimeMs, jwks };
+  return jwks;
+}
+
+function resolveRsaKey(
+  kid: string | undefined,
+  jwksPath: string | undefined,
+): crypto.KeyObject {
+  if (!jwksPath) {
+    throw new JWTVerificationError("RS256 tokens are not accepted");
+  }
+
+  const candidates = loadJwks(jwksPath).keys.filter(
+    (key) =>
+      isPlainObject(key) &&
+      key.kty === "RSA" &&
+      (key.use === undefined || key.use === "sig") &&
+      (key.alg === undefined || key.alg === "RS256"),
+  );
+
+  // Without a kid we can only pick a key when there is no ambiguity
+  const jwk = kid
+    ? candidates.find((key) => key.kid === kid)
+    : candidates.length === 1
+      ? candidates[0]
+      : undefined;
+
+  if (!jwk) {
+    throw new JWTVerificationError(`No RS256 key found for kid "${kid ?? ""}"`);
+  }
+  try {
+    return crypto.createPublicKey({ key: jwk, format: "jwk" });
+  } catch {
+    throw new JWTVerificationError(`RS256 key "${jwk.kid ?? ""}" is invalid`);
+  }
+}
+
+function verifySignature(
+  header: JWTHeader,
+  signingInput: string,
+  signature: Buffer,
+  options: JWTVerifyOptions,
+): boolean {
+  if (header.alg === "HS256") {
+    const kid = header.kid ?? DEFAULT_HMAC_KID;
+    // Own keys only, so a kid like "constructor" can't pick up Object members
+    const secret = Object.hasOwn(options.hmacKeys, kid)
+      ? options.hmacKeys[kid]
+      : undefined;
+    if (typeof secret !== "string" || !secret) {
+      throw new JWTVerificationError(`No HS256 key found for kid "${kid}"`);
+    }
+    const expected = crypto
+      .createHmac("sha256", secret)
+      .update(signingInput)
+      .digest();
+    return (
+      expected.length === signature.length &&
+      crypto.timingSafeEqual(expected, signature)
+    );
+  }
+
+  if (header.alg === "RS256") {
+    const key = resolveRsaKey(header.kid, options.jwksPath);
+    return crypto.verify("RSA-SHA256", Buffer.from(signingInput), key, signature);
+  }
+
+  throw new JWTVerificationError(`Unsupported algorithm "${header.alg}"`);
+}
+
+function verifyClaims(payload: JWTPayload, options: JWTVerifyOptions): void {
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSeconds ?? 0;
+
+  if (typeof payload.exp === "number" && payload.exp + tolerance < now) {
+    throw new JWTVerificationError("Token has expired");
+  }
+
+  if (typeof payload.nbf === "number" && payload.nbf - tolerance > now) {
+    throw new JWTVerificationError("Token is not yet valid");
+  }
+
+  if (options.issuer && payload.iss !== options.issuer) {
+    throw new JWTVerificationError("Token issuer is not trusted");
+  }
+
+  if (options.audience) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new JWTVerificationError("Token audience does not match");
+    }
+  }
+}
+
+/**
+ * Verify a compact JWT and return its payload.
+ * Throws JWTVerificationError when the token should be rejected.
+ */
+export function verifyJWT(token: string, options: JWTVerifyOptions): JWTPayload {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new JWTVerificationError("Token must have three segments");
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const header = parseSegment<JWTHeader>(encodedHeader, "header");
+  const payload = parseSegment<unknown>(encodedPayload, "payload");
+
+  const valid = verifySignature(
+    header,
+    `${encodedHeader}.${encodedPayload}`,
+    decodeSegment(encodedSignature),
+    options,
+  );
+  if (!valid) {
+    throw new JWTVerificationError("Invalid token signature");
+  }
+
+  if (!isJWTPayload(payload)) {
+    throw new JWTVerificationError("Token payload is missing required claims");
+  }
+
+  verifyClaims(payload, options);
+  return payload;
+}
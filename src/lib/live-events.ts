@@ -0,0 +1,83 @@
+// Fan-out of product mutations to pages listening on the SSE endpoint
+import type { ProductMutation } from "./store";
+import { LIVE_EVENTS } from "./config";
+
+export type LiveEventType = "product-changed" | "product-deleted";
+
+export interface LiveEvent {
+  id: number;
+  type: LiveEventType;
+  productId: number;
+  version: number;
+}
+
+type LiveEventSubscriber = (event: LiveEvent) => void;
+
+const subscribers = new Set<LiveEventSubscriber>();
+// Ids start from the clock so they keep rising across restarts, and a page
+// reconnecting with an id from an earlier run is never replayed the wrong
+// events
+let lastEventId = Date.now();
+// The most recent events, oldest first
+const recentEvents: LiveEvent[] = [];
+
+/**
+ * Register an open event stream. Returns an unsubscribe function.
+ */
+export function subscribeLiveEvents(
+  subscriber: LiveEventSubscriber,
+): () => void {
+  subscribers.add(subscriber);
+  return () => subscribers.delete(subscriber);
+}
+
+/**
+ * Mutation listener registered by the store. Restores count as changes since
+ * the row reappears with the same id.
+ */
+export function broadcastMutation(mutation: ProductMutation): void {
+  const { product } = mutation;
+  const event: LiveEvent = {
+    id: ++lastEventId,
+    type: mutation.type === "deleted" ? "product-deleted" : "product-changed",
+    productId: product.id,
+    version: product.version,
+  };
+  recentEvents.push(event);
+  if (recentEvents.length > LIVE_EVENTS.REPLAY_LIMIT) recentEvents.shift();
+
+  subscribers.forEach((subscriber) => {
+    try {
+      subscriber(event);
+    } catch (error) {
+      console.error("Live event subscriber failed:", error);
+    }
+  });
+}
+
+/**
+ * Events broadcast after `lastId`, for a stream reconnecting with
+ * Last-Event-ID. Null when some of them are no longer kept, or the id was
+ * never handed out; the page then has to reload everything it shows.
+ */
+export function getEventsSince(lastId: number): LiveEvent[] | null {
+  if (!Number.isInteger(lastId) || lastId > lastEventId) return null;
+  const oldestKept = recentEvents[0]?.id ?? lastEventId + 1;
+  if (lastId < oldestKept - 1) return null;
+  return recentEvents.filter((event) => event.id > lastId);
+}
+
+// Wire format: https://html.spec.whatwg.org/multipage/server-sent-events.html
+export function formatLiveEvent(event: LiveEvent): string {
+  const data = JSON.stringify({
+    productId: event.productId,
+    version: event.version,
+  });
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${data}\n\n`;
+}
+
+// Tells a reconnecting page it missed more than can be replayed. It carries
+// the latest id so the next reconnect picks up from here.
+export function formatRefreshEvent(): string {
+  return `id: ${lastEventId}\nevent: refresh\ndata: {}\n\n`;
+}
@@ -0,0 +1,130 @@
+// Money as integer minor units: sums are exact and rounding only happens
+// when an amount is scaled or converted
+import type { CurrencyCode, Money } from "../types";
+import { CURRENCY } from "./config";
+
+// Every supported currency has two decimal places
+export const MINOR_DIGITS = 2;
+const MINOR_PER_MAJOR = 10 ** MINOR_DIGITS;
+
+// Input that cannot be read as an amount of money
+export class MoneyFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MoneyFormatError";
+  }
+}
+
+export function money(minor: number, currency: CurrencyCode = CURRENCY.BASE): Money {
+  if (!Number.isSafeInteger(minor)) {
+    throw new RangeError(`Money must be a whole number of minor units, got ${minor}`);
+  }
+  return { minor, currency };
+}
+
+export function zeroMoney(currency: CurrencyCode = CURRENCY.BASE): Money {
+  return money(0, currency);
+}
+
+// Rounds to the nearest minor unit; for config values and legacy data
+export function fromMajor(value: number, currency: CurrencyCode = CURRENCY.BASE): Money {
+  return money(Math.round(value * MINOR_PER_MAJOR), currency);
+}
+
+// For display, CSV and JSON only; do arithmetic on minor units
+export function toMajor(amount: Money): number {
+  return amount.minor / MINOR_PER_MAJOR;
+}
+
+export function moneyEquals(a: Money, b: Money): boolean {
+  return a.minor === b.minor && a.currency === b.currency;
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  if (a.currency !== b.currency) {
+    throw new RangeError(`Cannot add ${b.currency} to ${a.currency}; convert first`);
+  }
+  return money(a.minor + b.minor, a.currency);
+}
+
+export function sumMoney(
+  amounts: readonly Money[],
+  currency: CurrencyCode = CURRENCY.BASE,
+): Money {
+  return amounts.reduce(addMoney, zeroMoney(currency));
+}
+
+// Exact for whole-number factors such as quantities; otherwise rounds
+export function multiplyMoney(amount: Money, factor: number): Money {
+  return money(Math.round(amount.minor * factor), amount.currency);
+}
+
+// Decimal separator, digit grouping and minus sign `locale` writes numbers with
+function getSeparators(locale: string): { group: string; decimal: string; minus: string } {
+  const parts = new Intl.NumberFormat(locale).formatToParts(-12345.6);
+  return {
+    group: parts.find((part) => part.type === "group")?.value ?? ",",
+    decimal: parts.find((part) => part.type === "decimal")?.value ?? ".",
+    minus: parts.find((part) => part.type === "minusSign")?.value ?? "-",
+  };
+}
+
+/**
+ * Reads an amount typed in `locale`, such as 1.234,56 in de-DE or 1 234,56
+ * in fr-FR. Group separators must split the digits into threes, so 1234.56
+ * typed in de-DE is rejected rather than read as 123456, and anything
+ * finer than a minor unit is rejected rather than rounded. A leading minus
+ * sign gives a negative amount, leaving the caller's range check to reject
+ * it. Throws MoneyFormatError with a message that completes "<field> ...".
+ */
+export function parseMoney(
+  raw: string,
+  currency: CurrencyCode,
+  locale: string = CURRENCY.DEFAULT_LOCALE,
+): Money {
+  const { group, decimal, minus } = getSeparators(locale);
+  const notANumber = new MoneyFormatError(`must be a number written for ${locale}`);
+
+  const trimmed = raw.trim();
+  // The locale's own minus sign, or the ASCII one people type
+  const sign = [minus, "-"].find((candidate) => trimmed.startsWith(candidate));
+  const unsigned = sign ? trimmed.slice(sign.length) : trimmed;
+  const [integer, fraction = "", ...extra] = unsigned.split(decimal);
+  if (extra.length > 0 || !/^\d*$/.test(fraction)) throw notANumber;
+  // Locales that group with a (narrow) no-break space accept a plain one
+  const groups = /^\s$/.test(group) ? integer.split(/\s/) : integer.split(group);
+  const [lead, ...rest] = groups;
+  if (!(rest.length > 0 ? /^\d{1,3}$/ : /^\d+$/).test(lead)) throw notANumber;
+  if (!rest.every((digits) => /^\d{3}$/.test(digits))) throw notANumber;
+
+  if (fraction.length > MINOR_DIGITS) {
+    throw new MoneyFormatError(
+      `must have at most ${MINOR_DIGITS} decimal places`,
+    );
+  }
+  const magnitude =
+    Number(groups.join("")) * MINOR_PER_MAJOR +
+    Number(fraction.padEnd(MINOR_DIGITS, "0"));
+  if (!Number.isSafeInteger(magnitude)) throw new MoneyFormatError("is too large");
+  // 0 - 0 is +0, so "-0" reads as zero
+  return money(sign ? 0 - magnitude : magnitude, currency);
+}
+
+// Characters with a meaning in a regular expression, including the stricter
+// set browsers compile the HTML pattern attribute with
+const REGEX_SYNTAX = /[\\^$.*+?()[\]{}|/]/g;
+
+/**
+ * The shape parseMoney accepts for a non-negative amount in `locale`, as an
+ * HTML pattern: digits optionally grouped in threes, then up to MINOR_DIGITS
+ * decimals.
+ */
+export function moneyInputPattern(locale: string = CURRENCY.DEFAULT_LOCALE): string {
+  const { group, decimal } = getSeparators(locale);
+  const escape = (text: string) => text.replace(REGEX_SYNTAX, "\\$&");
+  const groupSource = /^\s$/.test(group) ? "\\s" : escape(group);
+  return (
+    `(?:\\d{1,3}(?:${groupSource}\\d{3})+|\\d+)` +
+    `(?:${escape(decimal)}\\d{0,${MINOR_DIGITS}})?`
+  );
+}
@@ -0,0 +1,100 @@
+// Streaming readers for request bodies and multipart/form-data uploads
+
+const MAX_PART_HEADER_BYTES = 16 * 1024;
+
+export function getMultipartBoundary(contentType: string | null): string | null {
+  const match = contentType?.match(
+    /^multipart\/form-data\s*;.*?boundary=(?:"([^"]+)"|([^;\s]+))/i,
+  );
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+// Chunks of a raw request body, as they arrive
+export async function* streamBody(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<Uint8Array> {
+  const reader = body.getReader();
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Yields the bytes of the first file part in a multipart/form-data body as
+ * they arrive, so uploads are never buffered whole. Other parts are skipped
+ * and the rest of the body is discarded once the file ends.
+ */
+export async function* streamMultipartFile(
+  body: ReadableStream<Uint8Array>,
+  boundary: string,
+): AsyncGenerator<Uint8Array> {
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  const reader = body.getReader();
+  // A leading CRLF lets the first boundary match the same delimiter
+  let buffer = Buffer.from("\r\n");
+  let state: "boundary" | "headers" | "file" = "boundary";
+  let finished = false;
+
+  try {
+    while (!finished) {
+      const { value, done } = await reader.read();
+      if (value) buffer = Buffer.concat([buffer, value]);
+      finished = done;
+
+      for (;;) {
+        if (state === "boundary") {
+          const index = buffer.indexOf(delimiter);
+          if (index === -1) {
+            // Keep just enough to match a delimiter split across chunks
+            buffer = buffer.subarray(Math.max(0, buffer.length - delimiter.length));
+            break;
+          }
+          buffer = buffer.subarray(index + delimiter.length);
+          state = "headers";
+        }
+
+        if (state === "headers") {
+          if (buffer.length >= 2 && buffer.subarray(0, 2).toString() === "--") {
+            // Closing delimiter without a file part
+            return;
+          }
+          const end = buffer.indexOf("\r\n\r\n");
+          if (end === -1) {
+            if (buffer.length > MAX_PART_HEADER_BYTES) {
+              throw new Error("Multipart part headers are too large");
+            }
+            break;
+          }
+          const headers = buffer.subarray(0, end).toString("utf8");
+          buffer = buffer.subarray(end + 4);
+          state = /filename=/i.test(headers) ? "file" : "boundary";
+          continue;
+        }
+
+        const index = buffer.indexOf(delimiter);
+        if (index !== -1) {
+          if (index > 0) yield buffer.subarray(0, index);
+          return;
+        }
+        const safeLength = buffer.length - delimiter.length;
+        if (safeLength > 0) {
+          yield buffer.subarray(0, safeLength);
+          buffer = buffer.subarray(safeLength);
+        }
+        break;
+      }
+    }
+
+    if (state === "file") {
+      throw new Error("Upload ended before the file was complete");
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
@@ -1,6 +1,28 @@
 /// <reference path="../types/global.d.ts" />
-import type { HtmxBeforeSwapEvent, OptimisticEvent } from "../types/global";
+import type {
+  HtmxBeforeSwapEvent,
+  HtmxConfirmEvent,
+  HtmxResponseErrorEvent,
+  LiveEventData,
+  OptimisticEvent,
+} from "../types/global";
 import { formatCurrency } from "./format";
+import { isCurrencyCode } from "./type-guards";
+import {
+  ALERT_TIMEOUT,
+  LIVE_EVENTS_URL,
+  TABLE_DEFAULTS,
+  DEFAULT_SEARCH_FIELD,
+  CURSOR_PARAMS,
+  EDIT_CELL_PREFIXES,
+} from "./constants";
+import {
+  buildExportUrl,
+  buildTableStateParams,
+  parseFilterParams,
+  parseCursorParams,
+  type UrlParams,
+} from "./url-utils";
 import {
   getElementById,
   querySelector,
@@ -10,10 +32,19 @@ import {
   getTableCell,
 } from "./dom-utils";
 
+type EditableField = "price" | "quantity" | "category";
+
+// Inline-edit cells use short id prefixes: #view-qty-3, #cat-cell-3, ...
+const CELL_PREFIXES: Record<EditableField, string> = {
+  price: "price",
+  quantity: "qty",
+  category: "cat",
+};
+
 export function toggleEdit(
   id: number | string,
   editing: boolean,
-  field: "price" | "quantity" | null = null,
+  field: EditableField | null = null,
 ): void {
   if (typeof document === 'undefined') return;
 
@@ -21,11 +52,7 @@ export function toggleEdit(
   if (!tr) return;
 
   if (field) {
-    const fieldIdMap: Record<string, string> = {
-      price: "price",
-      quantity: "qty",
-    };
-    const fieldId = fieldIdMap[field] || field;
+    const fieldId = CELL_PREFIXES[field];
 
     const cell = querySelector<HTMLTableCellElement>(
       `#view-${fieldId}-${id}`,
@@ -53,7 +80,7 @@ export function exitEditMode(input: HTMLInputElement): void {
   const id = getRowId(input);
   if (!id) return;
 
-  const field = input.name === "quantity" ? "qty" : "price";
+  const field = CELL_PREFIXES[input.name as EditableField] ?? "price";
   const viewSpan = getElementById(`view-${field}-${id}`);
   const editSpan = input.closest(".edit") as HTMLElement | null;
 
@@ -91,7 +118,7 @@ export function cancelOnEscape(
   const id = getRowId(input);
   if (!id) return;
 
-  const field = input.name === "quantity" ? "qty" : "price";
+  const field = CELL_PREFIXES[input.name as EditableField] ?? "price";
   const viewSpan = getElementById(`view-${field}-${id}`);
   if (viewSpan) viewSpan.focus();
 }
@@ -105,8 +132,8 @@ export function restoreFocus(): void {
   const tr = getElementById<HTMLTableRowElement>(`row-${info.id}`);
   if (!tr) return;
 
-  const fieldType = info.field === "price" ? "price" : "qty";
-  const view = querySelector<HTMLElement>(`#view-${fieldType}-${info.id}`, tr);
+  const prefix = EDIT_CELL_PREFIXES[info.field];
+  const view = querySelector<HTMLElement>(`#view-${prefix}-${info.id}`, tr);
 
   if (view) {
     view.focus();
@@ -117,6 +144,16 @@ export function restoreFocus(): void {
 
 // Type definitions are now in src/types/global.d.ts
 
+// Formats in the display currency and locale the page was rendered with
+function formatDisplayCurrency(value: number): string {
+  const { currency, locale } = document.documentElement.dataset;
+  return formatCurrency(
+    value,
+    isCurrencyCode(currency) ? currency : undefined,
+    locale || undefined,
+  );
+}
+
 // by adding these functions to the window object,
 // we can use them in html (Astro components in this case)
 // Only assign to window in browser environment
@@ -127,19 +164,58 @@ if (typeof window !== 'undefined') {
     exitEditModeAfterSubmit,
     restoreFocus,
     cancelOnEscape,
-    formatCurrency,
+    formatCurrency: formatDisplayCurrency,
   };
 }
 
 // Only add event listeners in browser environment
 if (typeof document !== 'undefined') {
   document.body.addEventListener("htmx:beforeSwap", (evt: Event) => {
-    const status = (evt as HtmxBeforeSwapEvent)?.detail?.xhr?.status;
+    const detail = (evt as HtmxBeforeSwapEvent)?.detail;
+    const status = detail?.xhr?.status;
     if (typeof status === "number" && status >= 400) {
-      (evt as HtmxBeforeSwapEvent).detail.shouldSwap = false;
+      // Error fragments the server explicitly retargeted are meant to be
+      // shown; anything that is not an HTML fragment is never swapped in
+      const isHtml = /^text\/html\b/.test(
+        detail.xhr.getResponseHeader("Content-Type") ?? "",
+      );
+      if (isHtml && detail.xhr.getResponseHeader("HX-Retarget")) {
+        detail.shouldSwap = true;
+        detail.isError = false;
+      } else {
+        detail.shouldSwap = false;
+      }
     }
   });
 
+  // Forbidden responses carry an alert fragment; show it instead of failing silently
+  let alertTimer: number | null = null;
+  document.body.addEventListener("htmx:responseError", (evt: Event) => {
+    const xhr = (evt as HtmxResponseErrorEvent)?.detail?.xhr;
+    if (!xhr || xhr.status !== 403) return;
+    const region = getElementById("alert-region");
+    if (!region) return;
+    region.innerHTML = xhr.responseText;
+    if (alertTimer) clearTimeout(alertTimer);
+    alertTimer = window.setTimeout(() => {
+      region.innerHTML = "";
+      alertTimer = null;
+    }, ALERT_TIMEOUT);
+  });
+
+  // Swapped-in content can ask to be dismissed after a delay (e.g. undo toast)
+  document.body.addEventListener("htmx:load", (evt: Event) => {
+    const root = evt.target as HTMLElement | null;
+    if (!root || typeof root.querySelectorAll !== "function") return;
+    const elements = root.matches("[data-dismiss-after]")
+      ? [root]
+      : Array.from(root.querySelectorAll<HTMLElement>("[data-dismiss-after]"));
+    elements.forEach((el) => {
+      const delay = Number(el.dataset.dismissAfter);
+      if (delay > 0) window.setTimeout(() => el.remove(), delay);
+    });
+  });
+
   function ensureViewModeForTarget(targetEl: HTMLElement): void {
     if (!targetEl) return;
     const targetId = targetEl.id || "";
@@ -166,4 +242,239 @@ if (typeof document !== 'undefined') {
     const targetEl = (evt as OptimisticEvent)?.target || null;
     if (targetEl) ensureViewModeForTarget(targetEl);
   });
+
+  // A row is busy while the user is editing it, a request for it is in
+  // flight, or it is showing a conflict prompt
+  function isRowBusy(row: HTMLElement): boolean {
+    return (
+      row.contains(document.activeElement) ||
+      row.querySelector(
+        ".edit:not(.hidden), .htmx-request, .hx-optimistic, [data-conflict]",
+      ) !== null
+    );
+  }
+
+  // The response is all out-of-band fragments, so nothing is swapped directly
+  function refreshProduct(productId: number): void {
+    window.htmx.ajax("GET", `/api/products/${productId}/live`, {
+      target: "body",
+      swap: "none",
+    });
+  }
+
+  function parseLiveEvent(evt: Event): LiveEventData | null {
+    try {
+      return JSON.parse((evt as MessageEvent<string>).data) as LiveEventData;
+    } catch {
+      return null;
+    }
+  }
+
+  function connectLiveEvents(): void {
+    if (typeof EventSource === "undefined") return;
+    if (!getElementById("table-wrapper")) return;
+
+    const source = new EventSource(LIVE_EVENTS_URL);
+
+    source.addEventListener("product-changed", (evt: Event) => {
+      const data = parseLiveEvent(evt);
+      if (!data) return;
+
+      // Our own edits already rendered this version
+      const versionInput = getElementById<HTMLInputElement>(
+        `version-${data.productId}`,
+      );
+      if (versionInput && Number(versionInput.value) >= data.version) return;
+
+      // Leave rows being edited alone; saving them will surface a conflict
+      const row = getElementById(`row-${data.productId}`);
+      if (row && isRowBusy(row)) return;
+
+      refreshProduct(data.productId);
+    });
+
+    source.addEventListener("product-deleted", (evt: Event) => {
+      const data = parseLiveEvent(evt);
+      if (!data) return;
+
+      const row = getElementById(`row-${data.productId}`);
+      if (row && !isRowBusy(row)) row.remove();
+
+      // Still refresh so the totals drop the deleted product
+      refreshProduct(data.productId);
+    });
+
+    // More changes were missed while reconnecting than the server kept, so
+    // reload the table the way paging does. A table being edited is left
+    // alone; saving surfaces any conflict.
+    source.addEventListener("refresh", () => {
+      const wrapper = getElementById("table-wrapper");
+      if (!wrapper || isRowBusy(wrapper)) return;
+      window.htmx.ajax("GET", window.location.href, {
+        target: "#table-wrapper",
+        select: "#table-wrapper",
+        swap: "outerHTML",
+      });
+    });
+  }
+
+  connectLiveEvents();
+
+  // The hidden #search-params form lives outside #table-wrapper, so keep it
+  // in step with the URL that htmx pushes when paging, sorting or searching
+  const SEARCH_PARAM_DEFAULTS: Record<string, string> = {
+    page: String(TABLE_DEFAULTS.page),
+    limit: String(TABLE_DEFAULTS.pageSize),
+    sortBy: TABLE_DEFAULTS.sortBy,
+    sortOrder: TABLE_DEFAULTS.sortOrder,
+    searchTerm: TABLE_DEFAULTS.searchTerm,
+    searchField: DEFAULT_SEARCH_FIELD,
+  };
+
+  function syncSearchParamsForm(): void {
+    const form = getElementById<HTMLFormElement>("search-params");
+    if (!form) return;
+    const params = new URLSearchParams(window.location.search);
+    Array.from(form.elements).forEach((el) => {
+      if (!(el instanceof HTMLInputElement)) return;
+      el.value = params.get(el.name) ?? SEARCH_PARAM_DEFAULTS[el.name] ?? "";
+      // An empty cursor still means cursor mode, so presence is tracked apart
+      if ((CURSOR_PARAMS as readonly string[]).includes(el.name)) {
+        el.disabled = !params.has(el.name);
+      }
+    });
+  }
+
+  function readSearchParamsForm(): UrlParams | null {
+    const form = getElementById<HTMLFormElement>("search-params");
+    if (!form) return null;
+    const data = new FormData(form);
+    const query = new URLSearchParams(
+      Array.from(data.entries(), ([key, value]) => [key, String(value)]),
+    );
+    return buildTableStateParams({
+      page: Number(data.get("page")) || TABLE_DEFAULTS.page,
+      pageSize: Number(data.get("limit")) || TABLE_DEFAULTS.pageSize,
+      sort: String(data.get("sortBy") || TABLE_DEFAULTS.sortBy),
+      sortDir: String(data.get("sortOrder") || TABLE_DEFAULTS.sortOrder),
+      searchTerm: String(data.get("searchTerm") || ""),
+      searchField: String(data.get("searchField") || DEFAULT_SEARCH_FIELD),
+      filters: parseFilterParams(query),
+      cursor: parseCursorParams(query),
+    });
+  }
+
+  document.body.addEventListener("htmx:pushedIntoHistory", syncSearchParamsForm);
+  // The scrolling table replaces the URL as rows load
+  document.body.addEventListener("htmx:replacedInHistory", syncSearchParamsForm);
+  document.body.addEventListener("htmx:historyRestore", syncSearchParamsForm);
+
+  // Export links point at whatever view the table is showing right now
+  document.body.addEventListener("click", (evt: Event) => {
+    const link = (evt.target as HTMLElement | null)?.closest<HTMLAnchorElement>(
+      "a[data-export-format]",
+    );
+    if (!link) return;
+    const params = readSearchParamsForm();
+    if (!params) return;
+    const format = link.dataset.exportFormat === "json" ? "json" : "csv";
+    const scope = link.dataset.exportScope === "all" ? "all" : "page";
+    link.href = buildExportUrl(params, format, scope);
+  });
+
+  // Batch selection. The header box ticks every row shown; once they all are,
+  // the bar offers to widen the batch to every row matching the view.
+  function getBatchBoxes(): HTMLInputElement[] {
+    return Array.from(
+      document.querySelectorAll<HTMLInputElement>(
+        'input[name="ids"][form="batch-form"]',
+      ),
+    );
+  }
+
+  function syncBatchSelection(): void {
+    const form = getElementById<HTMLFormElement>("batch-form");
+    if (!form) return;
+    const scope = getElementById<HTMLInputElement>("batch-scope");
+    const all = scope?.value === "all";
+    const total = Number(form.dataset.total) || 0;
+    const boxes = getBatchBoxes();
+    // Rows appended by the scrolling table join an all-rows selection
+    if (all) boxes.forEach((box) => (box.checked = true));
+    const checked = boxes.filter((box) => box.checked).length;
+
+    const pageBox = getElementById<HTMLInputElement>("batch-select-page");
+    if (pageBox) {
+      pageBox.checked = boxes.length > 0 && checked === boxes.length;
+      pageBox.indeterminate = checked > 0 && checked < boxes.length;
+    }
+    const label = getElementById("batch-selection");
+    if (label) {
+      label.textContent = all
+        ? `All ${total} matching rows selected`
+        : checked === 0
+          ? "No rows selected"
+          : `${checked} selected`;
+    }
+    getElementById("batch-select-all")?.classList.toggle(
+      "hidden",
+      all || checked === 0 || checked < boxes.length || total <= boxes.length,
+    );
+    const actions = getElementById<HTMLFieldSetElement>("batch-actions");
+    if (actions) actions.disabled = !all && checked === 0;
+  }
+
+  function setBatchScope(value: "page" | "all"): void {
+    const scope = getElementById<HTMLInputElement>("batch-scope");
+    if (scope) scope.value = value;
+  }
+
+  document.body.addEventListener("change", (evt: Event) => {
+    const target = evt.target as HTMLElement | null;
+    if (!(target instanceof HTMLElement)) return;
+
+    if (target.id === "batch-select-page" && target instanceof HTMLInputElement) {
+      setBatchScope("page");
+      getBatchBoxes().forEach((box) => (box.checked = target.checked));
+    } else if (target.matches('input[name="ids"][form="batch-form"]')) {
+      setBatchScope("page");
+    } else if (target.matches('#batch-form select[name="action"]')) {
+      // Only the value the chosen action needs is shown
+      const action = (target as HTMLSelectElement).value;
+      document
+        .querySelectorAll<HTMLElement>("#batch-form [data-batch-action]")
+        .forEach((el) => el.classList.toggle("hidden", el.dataset.batchAction !== action));
+      return;
+    } else {
+      return;
+    }
+    syncBatchSelection();
+  });
+
+  document.body.addEventListener("click", (evt: Event) => {
+    const button = (evt.target as HTMLElement | null)?.closest("#batch-select-all");
+    if (!button) return;
+    setBatchScope("all");
+    syncBatchSelection();
+  });
+
+  // Deleting cannot be undone from the toast, so ask first
+  document.body.addEventListener("htmx:confirm", (evt: Event) => {
+    const { elt, issueRequest } = (evt as HtmxConfirmEvent).detail;
+    if (elt.id !== "batch-form") return;
+    const data = new FormData(elt as HTMLFormElement);
+    if (data.get("action") !== "delete") return;
+    evt.preventDefault();
+    const form = elt as HTMLFormElement;
+    const count =
+      data.get("scope") === "all"
+        ? Number(form.dataset.total) || 0
+        : data.getAll("ids").length;
+    if (window.confirm(`Delete ${count} ${count === 1 ? "product" : "products"}?`)) {
+      issueRequest(true);
+    }
+  });
+
+  document.body.addEventListener("htmx:afterSettle", syncBatchSelection);
+  syncBatchSelection();
 }
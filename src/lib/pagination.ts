@@ -0,0 +1,42 @@
+// Page maths for the table's pagination control
+
+export type PageLink = number | "ellipsis";
+
+/**
+ * Pages to link to: the first and last page, `siblings` pages either side of
+ * the current one, and an ellipsis for each gap, e.g. 1 … 5 6 7 … 12.
+ * A gap of a single page shows that page instead of an ellipsis.
+ */
+export function getPageLinks(
+  current: number,
+  totalPages: number,
+  siblings: number,
+): PageLink[] {
+  const pages = new Set<number>([1, totalPages]);
+  for (let page = current - siblings; page <= current + siblings; page++) {
+    if (page >= 1 && page <= totalPages) pages.add(page);
+  }
+
+  const links: PageLink[] = [];
+  let previous = 0;
+  [...pages]
+    .sort((a, b) => a - b)
+    .forEach((page) => {
+      if (page - previous === 2) links.push(previous + 1);
+      else if (page - previous > 2) links.push("ellipsis");
+      links.push(page);
+      previous = page;
+    });
+  return links;
+}
+
+// 1-based positions of the first and last row on a page; both 0 when empty
+export function getPageRange(
+  page: number,
+  pageSize: number,
+  total: number,
+): { from: number; to: number } {
+  if (total === 0) return { from: 0, to: 0 };
+  const from = (page - 1) * pageSize + 1;
+  return { from, to: Math.min(total, page * pageSize) };
+}
@@ -0,0 +1,73 @@
+// Declarative role-based access control for API routes
+import type { JWTPayload } from "./jwt";
+
+export type Role = JWTPayload["role"];
+
+export interface RoutePolicy {
+  pattern: RegExp;
+  methods: readonly string[];
+  roles: readonly Role[];
+}
+
+// Routes not listed here are open to everyone, including anonymous users
+export const ROUTE_POLICIES: readonly RoutePolicy[] = [
+  {
+    pattern: /^\/api\/products\/?$/,
+    methods: ["POST"],
+    roles: ["admin"],
+  },
+  {
+    pattern: /^\/api\/products\/import\/?$/,
+    methods: ["POST"],
+    roles: ["admin"],
+  },
+  {
+    pattern: /^\/api\/products\/batch\/?$/,
+    methods: ["POST"],
+    roles: ["admin"],
+  },
+  {
+    pattern: /^\/api\/products\/[^/]+\/?$/,
+    methods: ["DELETE"],
+    roles: ["admin"],
+  },
+  {
+    pattern: /^\/api\/products\/[^/]+\/restore\/?$/,
+    methods: ["POST"],
+    roles: ["admin"],
+  },
+  {
+    pattern: /^\/api\/products\/[^/]+\/movements\/?$/,
+    methods: ["POST"],
+    roles: ["admin"],
+  },
+  {
+    pattern: /^\/api\/products\/[^/]+\/(price|quantity|category|reorder-threshold)\/?$/,
+    methods: ["PATCH"],
+    roles: ["admin"],
+  },
+];
+
+export function findRoutePolicy(
+  method: string,
+  pathname: string,
+): RoutePolicy | undefined {
+  const upper = method.toUpperCase();
+  return ROUTE_POLICIES.find(
+    (policy) => policy.methods.includes(upper) && policy.pattern.test(pathname),
+  );
+}
+
+/**
+ * Whether `user` may call `method` on `pathname`. Components use this too,
+ * so edit affordances are only rendered for routes the user can reach.
+ */
+export function isRouteAllowed(
+  user: JWTPayload | null,
+  method: string,
+  pathname: string,
+): boolean {
+  const policy = findRoutePolicy(method, pathname);
+  if (!policy) return true;
+  return user !== null && policy.roles.includes(user.role);
+}
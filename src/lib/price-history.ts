@@ -0,0 +1,83 @@
+// Price and quantity of each product over time, one point per change
+import type { ProductMutation, ProductWithCurrency } from "./store";
+import type { Money } from "../types";
+import { PERSISTENCE } from "./server-config";
+import { createAppendLog, reviveDates } from "./repositories";
+
+export interface HistoryPoint {
+  productId: number;
+  // Null for the starting point of a product that predates the history
+  timestamp: Date | null;
+  price: Money;
+  quantity: number;
+  // The field that changed to reach this point; null for the first point
+  field: "price" | "quantity" | null;
+}
+
+// Persisted beside the products; series below is an index over it
+const log = createAppendLog<Readonly<HistoryPoint>>(
+  PERSISTENCE,
+  "price_history",
+  (raw) => Object.freeze(reviveDates(raw, ["timestamp"]) as unknown as HistoryPoint),
+);
+
+// Oldest first; points are frozen and never removed
+const series = new Map<number, Readonly<HistoryPoint>[]>();
+
+function index(point: Readonly<HistoryPoint>): void {
+  const points = series.get(point.productId) ?? [];
+  points.push(point);
+  series.set(point.productId, points);
+}
+
+log.list().forEach(index);
+
+function append(
+  product: ProductWithCurrency,
+  field: HistoryPoint["field"],
+  timestamp: Date | null,
+): void {
+  const point = Object.freeze({
+    productId: product.id,
+    timestamp,
+    price: product.price,
+    quantity: product.quantity,
+    field,
+  });
+  log.append(point);
+  index(point);
+}
+
+/**
+ * Mutation listener registered by the store. Seeded and persisted products
+ * have no creation point, so their first change also records where they
+ * started from.
+ */
+export function recordPriceHistory(mutation: ProductMutation): void {
+  switch (mutation.type) {
+    case "created":
+      append(mutation.product, null, mutation.product.createdAt ?? new Date());
+      break;
+    case "updated": {
+      const { field, previous, product } = mutation;
+      if (field !== "price" && field !== "quantity") break;
+      if (!series.has(product.id)) {
+        append(previous, null, previous.updatedAt ?? previous.createdAt ?? null);
+      }
+      append(product, field, product.updatedAt ?? new Date());
+      break;
+    }
+  }
+}
+
+export function getPriceHistory(productId: number): readonly HistoryPoint[] {
+  return series.get(productId) ?? [];
+}
+
+// The last `limit` prices, oldest first; quantity-only changes are skipped
+export function getRecentPrices(productId: number, limit: number): Money[] {
+  return getPriceHistory(productId)
+    .filter((point) => point.field !== "quantity")
+    .slice(-limit)
+    .map((point) => point.price);
+}
@@ -0,0 +1,228 @@
+// Batch actions on selected rows: every row is validated before any is written
+import { BATCH } from "./config";
+import {
+  getProductById,
+  deleteProduct,
+  updateProductField,
+  updateProductCategory,
+  runInTransaction,
+  type MutationContext,
+  type ProductWithCurrency,
+} from "./store";
+import { formatMoney } from "./format";
+import { moneyEquals, multiplyMoney } from "./money";
+import { checkField, checkProduct, parseField } from "./product-schema";
+import type { Money } from "../types";
+
+export type BatchAction =
+  | { kind: "delete" }
+  | { kind: "setQuantity"; quantity: number }
+  | { kind: "adjustPrice"; percent: number }
+  | { kind: "setCategory"; category: string };
+
+export type BatchStatus = "delete" | "update" | "unchanged" | "reject";
+
+export interface BatchRow {
+  productId: number;
+  // Blank when the product no longer exists
+  name: string;
+  status: BatchStatus;
+  // The edited field before and after; unset for deletes and rejects
+  from?: number | string | Money;
+  to?: number | string | Money;
+  errors: string[];
+}
+
+export interface BatchResult {
+  action: BatchAction;
+  // False when any row was rejected, in which case nothing was written
+  applied: boolean;
+  rows: BatchRow[];
+  counts: Record<BatchStatus, number>;
+}
+
+// The request as a whole is unusable (nothing selected, unknown action, ...)
+export class BatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchError";
+  }
+}
+
+function readNumber(formData: FormData, field: string): number {
+  const text = String(formData.get(field) ?? "").trim();
+  const value = Number(text);
+  if (text === "" || Number.isNaN(value)) {
+    throw new BatchError(`${field} must be a number, got "${text}"`);
+  }
+  return value;
+}
+
+/**
+ * The action and its value from the batch form. Values that don't depend on
+ * the row (a quantity, a category) are checked here; price changes are
+ * checked per row once the new prices are known.
+ */
+export function parseBatchAction(formData: FormData): BatchAction {
+  const kind = String(formData.get("action") ?? "");
+  switch (kind) {
+    case "delete":
+      return { kind };
+    case "setQuantity": {
+      const quantity = readNumber(formData, "quantity");
+      const problem = checkField("quantity", quantity);
+      if (problem) {
+        throw new BatchError(`quantity ${problem}, got ${quantity}`);
+      }
+      return { kind, quantity };
+    }
+    case "adjustPrice": {
+      const percent = readNumber(formData, "percent");
+      if (percent < BATCH.MIN_PRICE_PERCENT || percent > BATCH.MAX_PRICE_PERCENT) {
+        throw new BatchError(
+          `percent must be between ${BATCH.MIN_PRICE_PERCENT} and ${BATCH.MAX_PRICE_PERCENT}, got ${percent}`,
+        );
+      }
+      return { kind, percent };
+    }
+    case "setCategory": {
+      const category = parseField("category", String(formData.get("category") ?? ""));
+      if (!category.ok) {
+        throw new BatchError(`category ${category.message}`);
+      }
+      return { kind, category: category.value };
+    }
+    default:
+      throw new BatchError(kind ? `Unknown batch action "${kind}"` : "Choose an action");
+  }
+}
+
+// Checked row ids, in the order they were sent, without repeats
+export function parseBatchIds(formData: FormData): number[] {
+  const ids = new Set<number>();
+  formData.getAll("ids").forEach((value) => {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id < 1) {
+      throw new BatchError(`ids must be positive whole numbers, got "${value}"`);
+    }
+    ids.add(id);
+  });
+  return Array.from(ids);
+}
+
+// Rounded to the minor unit, so a percentage change never leaves a fraction of a cent
+function adjustPrice(price: Money, percent: number): Money {
+  return multiplyMoney(price, (100 + percent) / 100);
+}
+
+function planRow(
+  id: number,
+  existing: ProductWithCurrency | undefined,
+  action: BatchAction,
+): BatchRow {
+  if (!existing) {
+    return {
+      productId: id,
+      name: "",
+      status: "reject",
+      errors: [`no product with id ${id}`],
+    };
+  }
+
+  const row = {
+    productId: id,
+    name: existing.name,
+    errors: [] as string[],
+  };
+  // The changed product is checked whole, so cross-field rules apply per row
+  const change = (
+    field: "quantity" | "category" | "price",
+    to: number | string | Money,
+  ): BatchRow => {
+    const from = existing[field];
+    const shown = typeof to === "object" ? formatMoney(to) : to;
+    const errors = checkProduct({ ...existing, [field]: to }).map((error) =>
+      error.field === field
+        ? `${field} ${error.message}, would be ${shown}`
+        : `${error.field} ${error.message}`,
+    );
+    if (errors.length > 0) return { ...row, status: "reject", errors };
+    const unchanged =
+      typeof from === "object" && typeof to === "object"
+        ? moneyEquals(from, to)
+        : from === to;
+    return { ...row, status: unchanged ? "unchanged" : "update", from, to };
+  };
+
+  switch (action.kind) {
+    case "delete":
+      return { ...row, status: "delete" };
+    case "setQuantity":
+      return change("quantity", action.quantity);
+    case "setCategory":
+      return change("category", action.category);
+    case "adjustPrice":
+      return change("price", adjustPrice(existing.price, action.percent));
+  }
+}
+
+function applyRow(
+  row: BatchRow,
+  action: BatchAction,
+  context: MutationContext,
+): void {
+  if (row.status === "delete") {
+    deleteProduct(row.productId, context);
+    return;
+  }
+  if (row.status !== "update") return;
+
+  switch (action.kind) {
+    case "setQuantity":
+      updateProductField(row.productId, "quantity", action.quantity, context);
+      break;
+    case "adjustPrice":
+      updateProductField(row.productId, "price", row.to as Money, context);
+      break;
+    case "setCategory":
+      updateProductCategory(row.productId, action.category, context);
+      break;
+  }
+}
+
+/**
+ * Apply `action` to the products in `ids`. Every row is planned first, and
+ * writes only happen if none was rejected. They run in one storage
+ * transaction, so a failure partway through leaves nothing written either.
+ * Unchanged rows are skipped and keep their version.
+ */
+export function runBatch(
+  ids: number[],
+  action: BatchAction,
+  context: MutationContext = {},
+): BatchResult {
+  if (ids.length === 0) {
+    throw new BatchError("Select at least one product");
+  }
+  if (ids.length > BATCH.MAX_ROWS) {
+    throw new BatchError(`A batch can change at most ${BATCH.MAX_ROWS} products`);
+  }
+
+  const counts: Record<BatchStatus, number> = {
+    delete: 0,
+    update: 0,
+    unchanged: 0,
+    reject: 0,
+  };
+  const rows = ids.map((id) => {
+    const row = planRow(id, getProductById(id), action);
+    counts[row.status]++;
+    return row;
+  });
+
+  const applied = counts.reject === 0;
+  if (applied) {
+    runInTransaction(() => rows.forEach((row) => applyRow(row, action, context)));
+  }
+  return { action, applied, rows, counts };
+}
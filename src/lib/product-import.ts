@@ -0,0 +1,403 @@
+// Two-step CSV import: validate into a dry-run plan, then apply it on confirm
+import crypto from "node:crypto";
+import {
+  IMPORT,
+  CSV_EXPORT,
+  PRODUCT_DEFAULTS,
+  CURRENCY,
+} from "./config";
+import { parseCsvStream, stripFormulaGuard } from "./csv";
+import { isValidProduct } from "./type-guards";
+import { moneyEquals } from "./money";
+import {
+  PRODUCT_SCHEMA,
+  checkProduct,
+  parseField,
+  type FieldValue,
+  type ParseOptions,
+  type ProductField,
+} from "./product-schema";
+import {
+  getProductById,
+  createProduct,
+  updateProductField,
+  updateReorderThreshold,
+  runInTransaction,
+  type MutationContext,
+} from "./store";
+import type { JWTPayload } from "./jwt";
+import type { Money, Product } from "../types";
+
+export type ImportStatus = "create" | "update" | "unchanged" | "reject";
+
+export type ImportChange =
+  | { field: "price"; from: Money; to: Money }
+  | { field: "quantity"; from: number; to: number }
+  // Undefined when the product uses its category's threshold
+  | { field: "reorderThreshold"; from: number | undefined; to: number | undefined };
+
+export interface ImportRow {
+  // 1-based record number in the file; the header is line 1
+  line: number;
+  status: ImportStatus;
+  productId: number | null;
+  name: string;
+  category: string;
+  description?: string;
+  price: Money | null;
+  quantity: number | null;
+  reorderThreshold?: number;
+  changes: ImportChange[];
+  // Version the update was planned against; confirm fails if it moved on
+  expectedVersion?: number;
+  errors: string[];
+}
+
+export interface ImportPlan {
+  token: string;
+  userId: number | null;
+  createdAt: number;
+  rows: ImportRow[];
+  counts: Record<ImportStatus, number>;
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+}
+
+// The upload as a whole is unusable (bad header, too large, ...)
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+// Confirming would overwrite changes made after the preview
+export class ImportConflictError extends Error {
+  constructor(public readonly productIds: number[]) {
+    super(
+      `Products ${productIds.join(", ")} changed after the preview was made`,
+    );
+    this.name = "ImportConflictError";
+  }
+}
+
+type Column =
+  | "id"
+  | "name"
+  | "category"
+  | "description"
+  | "price"
+  | "currency"
+  | "quantity"
+  | "reorder_threshold";
+
+const REQUIRED_COLUMNS: readonly Column[] = ["name", "price", "quantity"];
+const KNOWN_COLUMNS: readonly Column[] = [
+  "id",
+  "name",
+  "category",
+  "description",
+  "price",
+  "currency",
+  "quantity",
+  "reorder_threshold",
+];
+
+type ColumnIndex = Partial<Record<Column, number>>;
+
+// Columns are matched by header name, so exports (with their extra
+// subtotal column) can be edited and imported back
+function readHeader(cells: string[]): ColumnIndex {
+  const index: ColumnIndex = {};
+  cells.forEach((cell, position) => {
+    const name = cell.trim().toLowerCase() as Column;
+    if (KNOWN_COLUMNS.includes(name) && index[name] === undefined) {
+      index[name] = position;
+    }
+  });
+  const missing = REQUIRED_COLUMNS.filter((column) => index[column] === undefined);
+  if (missing.length > 0) {
+    throw new ImportError(`Missing required column(s): ${missing.join(", ")}`);
+  }
+  return index;
+}
+
+// One cell through the product schema; prices are read the way exports
+// write them, as plain en-US decimals
+function readField<F extends ProductField>(
+  field: F,
+  text: string,
+  errors: string[],
+  options: ParseOptions = {},
+): FieldValue<F> | null {
+  const result = parseField(field, text, options);
+  if (result.ok) return result.value;
+  const shown = text && PRODUCT_SCHEMA[field].type !== "text" ? `, got "${text}"` : "";
+  errors.push(`${field} ${result.message}${shown}`);
+  return null;
+}
+
+function planRow(
+  cells: string[],
+  columns: ColumnIndex,
+  line: number,
+  seenIds: Set<number>,
+): ImportRow {
+  // Exports quote formula-like text; the quote is not part of the value
+  const read = (column: Column) =>
+    columns[column] === undefined
+      ? ""
+      : stripFormulaGuard(cells[columns[column]] ?? "").trim();
+  const errors: string[] = [];
+
+  let existing: Product | undefined;
+  let productId: number | null = null;
+  const idText = read("id");
+  if (idText) {
+    const id = Number(idText);
+    if (!Number.isInteger(id) || id < 1) {
+      errors.push(`id must be a positive whole number, got "${idText}"`);
+    } else if (seenIds.has(id)) {
+      errors.push(`id ${id} appears more than once in the file`);
+    } else {
+      seenIds.add(id);
+      productId = id;
+      existing = getProductById(id);
+      if (!existing) errors.push(`no product with id ${id}`);
+    }
+  }
+
+  // Updates only change price, quantity and reorder threshold; blank
+  // name/category keep the current values
+  const nameText = read("name") || existing?.name || "";
+  const name = readField("name", nameText, errors) ?? nameText;
+  const categoryText = read("category") || existing?.category || PRODUCT_DEFAULTS.CATEGORY;
+  const category = readField("category", categoryText, errors) ?? categoryText;
+  const description = readField("description", read("description"), errors) ?? undefined;
+
+  const currencyText =
+    read("currency").toUpperCase() || existing?.price.currency || CURRENCY.BASE;
+  const currency = readField("currency", currencyText, errors);
+  if (currency && existing && currency !== existing.price.currency) {
+    errors.push(`currency cannot change from ${existing.price.currency} on import`);
+  }
+  const price = readField("price", read("price"), errors, {
+    currency: currency ?? CURRENCY.BASE,
+  });
+  const quantity = readField("quantity", read("quantity"), errors);
+  // A blank threshold clears the product's own; files without the column
+  // leave it as it is
+  const reorderThreshold =
+    columns.reorder_threshold === undefined
+      ? existing?.reorderThreshold
+      : (readField("reorderThreshold", read("reorder_threshold"), errors) ?? undefined);
+
+  const row: ImportRow = {
+    line,
+    status: "reject",
+    productId,
+    name,
+    category,
+    description,
+    price,
+    quantity,
+    reorderThreshold,
+    changes: [],
+    errors,
+  };
+
+  if (errors.length > 0 || price === null || quantity === null) {
+    return row;
+  }
+
+  const candidate = existing
+    ? { ...existing, price, quantity, reorderThreshold }
+    : { id: 0, version: 1, name, category, description, price, quantity, reorderThreshold };
+  checkProduct(candidate).forEach((error) => {
+    errors.push(`${error.field} ${error.message}`);
+  });
+  if (errors.length > 0) return row;
+  if (!isValidProduct(candidate)) {
+    errors.push("row does not describe a valid product");
+    return row;
+  }
+
+  if (!existing) {
+    return { ...row, status: "create" };
+  }
+
+  const changes: ImportChange[] = [];
+  if (!moneyEquals(existing.price, price)) {
+    changes.push({ field: "price", from: existing.price, to: price });
+  }
+  if (existing.quantity !== quantity) {
+    changes.push({ field: "quantity", from: existing.quantity, to: quantity });
+  }
+  if (existing.reorderThreshold !== reorderThreshold) {
+    changes.push({
+      field: "reorderThreshold",
+      from: existing.reorderThreshold,
+      to: reorderThreshold,
+    });
+  }
+  return {
+    ...row,
+    name: existing.name,
+    category: existing.category,
+    status: changes.length > 0 ? "update" : "unchanged",
+    changes,
+    expectedVersion: existing.version,
+  };
+}
+
+// TextDecoder also drops the byte order mark spreadsheet apps like to add
+async function* decodeText(
+  chunks: AsyncIterable<Uint8Array>,
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder("utf-8");
+  let bytes = 0;
+  for await (const chunk of chunks) {
+    bytes += chunk.byteLength;
+    if (bytes > IMPORT.MAX_BYTES) {
+      throw new ImportError(
+        `File is larger than ${Math.floor(IMPORT.MAX_BYTES / (1024 * 1024))} MB`,
+      );
+    }
+    yield decoder.decode(chunk, { stream: true });
+  }
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+/**
+ * Validate an uploaded CSV without writing anything. The plan is kept
+ * server-side under its token until confirmed or expired.
+ */
+export async function planImport(
+  chunks: AsyncIterable<Uint8Array>,
+  actor: JWTPayload | null,
+): Promise<ImportPlan> {
+  const counts: Record<ImportStatus, number> = {
+    create: 0,
+    update: 0,
+    unchanged: 0,
+    reject: 0,
+  };
+  const rows: ImportRow[] = [];
+  const seenIds = new Set<number>();
+  let columns: ColumnIndex | null = null;
+  let line = 0;
+
+  for await (const cells of parseCsvStream(decodeText(chunks))) {
+    line++;
+    if (cells.every((cell) => cell.trim() === "")) continue;
+    if (!columns) {
+      columns = readHeader(cells);
+      continue;
+    }
+    // Footer row written by the CSV export
+    if (cells[0]?.trim() === CSV_EXPORT.TOTALS_LABEL) continue;
+    if (rows.length >= IMPORT.MAX_ROWS) {
+      throw new ImportError(`File has more than ${IMPORT.MAX_ROWS} rows`);
+    }
+
+    const row = planRow(cells, columns, line, seenIds);
+    counts[row.status]++;
+    rows.push(row);
+  }
+
+  if (!columns) {
+    throw new ImportError("File is empty");
+  }
+
+  const plan: ImportPlan = {
+    token: crypto.randomUUID(),
+    userId: actor?.userId ?? null,
+    createdAt: Date.now(),
+    rows,
+    counts,
+  };
+  savePlan(plan);
+  return plan;
+}
+
+// Pending plans, oldest first
+const plans: ImportPlan[] = [];
+
+function prune(now: number): void {
+  while (plans.length > 0 && now - plans[0].createdAt > IMPORT.PLAN_TTL_MS) {
+    plans.shift();
+  }
+}
+
+function savePlan(plan: ImportPlan): void {
+  prune(plan.createdAt);
+  plans.push(plan);
+}
+
+/**
+ * Removes and returns the plan for `token` if it has not expired and was
+ * previewed by the same user; otherwise undefined.
+ */
+export function takeImportPlan(
+  token: string,
+  actor: JWTPayload | null,
+): ImportPlan | undefined {
+  prune(Date.now());
+  const index = plans.findIndex((plan) => plan.token === token);
+  if (index === -1) return undefined;
+  if (plans[index].userId !== (actor?.userId ?? null)) return undefined;
+  return plans.splice(index, 1)[0];
+}
+
+/**
+ * Write a confirmed plan. Every planned update is checked against the current
+ * product version first, so either all rows apply or none do.
+ */
+export function applyImportPlan(
+  plan: ImportPlan,
+  context: MutationContext = {},
+): ImportResult {
+  const updates = plan.rows.filter((row) => row.status === "update");
+  const creates = plan.rows.filter((row) => row.status === "create");
+
+  const stale = updates
+    .filter((row) => getProductById(row.productId!)?.version !== row.expectedVersion)
+    .map((row) => row.productId!);
+  if (stale.length > 0) {
+    throw new ImportConflictError(stale);
+  }
+
+  // One transaction, so a failure partway through imports nothing
+  runInTransaction(() => {
+    updates.forEach((row) => {
+      row.changes.forEach((change) => {
+        if (change.field === "price") {
+          updateProductField(row.productId!, "price", change.to, context);
+        } else if (change.field === "quantity") {
+          updateProductField(row.productId!, "quantity", change.to, context);
+        } else {
+          updateReorderThreshold(row.productId!, change.to, context);
+        }
+      });
+    });
+    creates.forEach((row) => {
+      createProduct(
+        {
+          name: row.name,
+          category: row.category,
+          description: row.description,
+          price: row.price!,
+          quantity: row.quantity!,
+          reorderThreshold: row.reorderThreshold,
+        },
+        context,
+      );
+    });
+  });
+
+  return { created: creates.length, updated: updates.length };
+}
@@ -0,0 +1,353 @@
+// Declarative rules for each product field. Routes, the store, batch actions
+// and CSV import all validate through this schema, and form inputs render the
+// same limits as HTML constraint attributes.
+import { CURRENCY, VALIDATION_RULES } from "./config";
+import {
+  MINOR_DIGITS,
+  MoneyFormatError,
+  fromMajor,
+  moneyEquals,
+  moneyInputPattern,
+  parseMoney,
+} from "./money";
+import type { CurrencyCode, Money, Product } from "../types";
+
+export type ProductField =
+  | "name"
+  | "category"
+  | "description"
+  | "price"
+  | "currency"
+  | "quantity"
+  | "reorderThreshold";
+// Fields a product stores directly; the currency is its price's
+type StoredField = Exclude<ProductField, "currency">;
+export type ProductFields = Pick<Product, StoredField>;
+export type FieldValue<F extends ProductField> = F extends StoredField
+  ? Product[F]
+  : CurrencyCode;
+
+// Messages complete "<field> ...", e.g. "price cannot be 99.99"
+interface Check<T> {
+  test: (value: T) => boolean;
+  message: string;
+}
+
+interface TextRule {
+  type: "text";
+  required: boolean;
+  maxLength?: number;
+  // Matched against the whole value, as the HTML pattern attribute is
+  pattern?: { source: string; message: string };
+  checks?: Check<string>[];
+}
+
+interface IntegerRule {
+  type: "integer";
+  required: boolean;
+  min: number;
+  max: number;
+  step: number;
+  checks?: Check<number>[];
+}
+
+interface MoneyRule {
+  type: "money";
+  required: boolean;
+  // In major units of whichever currency the price is in
+  min: number;
+  max: number;
+  step: number;
+  checks?: Check<Money>[];
+}
+
+// One of a fixed set of codes
+interface ChoiceRule {
+  type: "choice";
+  required: boolean;
+  options: readonly string[];
+}
+
+type FieldRule = TextRule | IntegerRule | MoneyRule | ChoiceRule;
+
+interface CrossFieldRule {
+  // The field the message is reported against
+  field: ProductField;
+  test: (product: ProductFields) => boolean;
+  message: string;
+}
+
+export const PRODUCT_SCHEMA = {
+  name: {
+    type: "text",
+    required: true,
+    maxLength: VALIDATION_RULES.MAX_NAME_LENGTH,
+  },
+  category: {
+    type: "text",
+    required: true,
+    maxLength: VALIDATION_RULES.MAX_CATEGORY_LENGTH,
+    // Commas separate categories in the URL
+    pattern: {
+      source: `[^${VALIDATION_RULES.FORBIDDEN_CATEGORY_CHAR}]*`,
+      message: `cannot contain "${VALIDATION_RULES.FORBIDDEN_CATEGORY_CHAR}"`,
+    },
+  },
+  description: {
+    type: "text",
+    required: false,
+  },
+  price: {
+    type: "money",
+    required: true,
+    min: VALIDATION_RULES.MIN_PRICE,
+    max: VALIDATION_RULES.MAX_PRICE,
+    step: 1 / 10 ** MINOR_DIGITS,
+    checks: [
+      {
+        test: (price) =>
+          !moneyEquals(price, fromMajor(VALIDATION_RULES.FORBIDDEN_PRICE, price.currency)),
+        message: `cannot be ${VALIDATION_RULES.FORBIDDEN_PRICE}`,
+      },
+    ],
+  },
+  currency: {
+    type: "choice",
+    required: true,
+    options: Object.keys(CURRENCY.RATES),
+  },
+  quantity: {
+    type: "integer",
+    required: true,
+    min: VALIDATION_RULES.MIN_QUANTITY,
+    max: VALIDATION_RULES.MAX_QUANTITY,
+    step: 1,
+  },
+  // Unset falls back to the category's threshold
+  reorderThreshold: {
+    type: "integer",
+    required: false,
+    min: VALIDATION_RULES.MIN_QUANTITY,
+    max: VALIDATION_RULES.MAX_QUANTITY,
+    step: 1,
+  },
+} satisfies Record<ProductField, FieldRule>;
+
+// Checked once every field on its own is valid
+export const PRODUCT_RULES: CrossFieldRule[] = [
+  {
+    // Subtotals are summed as whole minor units
+    field: "quantity",
+    test: ({ price, quantity }) => Number.isSafeInteger(price.minor * quantity),
+    message: "times price is too large to total exactly",
+  },
+];
+
+// A product field that broke its rules; the message reads "<field> <reason>"
+export class ProductValidationError extends Error {
+  constructor(
+    public readonly field: ProductField,
+    public readonly reason: string,
+  ) {
+    super(`${field} ${reason}`);
+    this.name = "ProductValidationError";
+  }
+}
+
+function checkText(rule: TextRule, value: string | undefined): string | null {
+  const { maxLength } = rule;
+  const lengthMessage = rule.required
+    ? `must be between 1 and ${maxLength} characters`
+    : `must be at most ${maxLength} characters`;
+  if (!value) {
+    if (!rule.required) return null;
+    return maxLength === undefined ? "is required" : lengthMessage;
+  }
+  if (maxLength !== undefined && value.length > maxLength) return lengthMessage;
+  if (rule.pattern && !new RegExp(`^(?:${rule.pattern.source})$`).test(value)) {
+    return rule.pattern.message;
+  }
+  return rule.checks?.find((check) => !check.test(value))?.message ?? null;
+}
+
+function checkInteger(rule: IntegerRule, value: number | undefined): string | null {
+  if (value === undefined) return rule.required ? "is required" : null;
+  if (!Number.isInteger(value)) return "must be a whole number";
+  if (value < rule.min) return `must be at least ${rule.min}`;
+  if (value > rule.max) return `must be at most ${rule.max}`;
+  return rule.checks?.find((check) => !check.test(value))?.message ?? null;
+}
+
+function checkMoney(rule: MoneyRule, value: Money | undefined): string | null {
+  if (value === undefined) return rule.required ? "is required" : null;
+  if (value.minor < fromMajor(rule.min, value.currency).minor) {
+    return `must be at least ${rule.min}`;
+  }
+  if (value.minor > fromMajor(rule.max, value.currency).minor) {
+    return `must be at most ${rule.max}`;
+  }
+  return rule.checks?.find((check) => !check.test(value))?.message ?? null;
+}
+
+function checkChoice(rule: ChoiceRule, value: string | undefined): string | null {
+  if (value === undefined) return rule.required ? "is required" : null;
+  return rule.options.includes(value) ? null : `must be one of ${rule.options.join(", ")}`;
+}
+
+/**
+ * The first rule `value` breaks for `field`, as a message completing
+ * "<field> ...", or null when it is valid.
+ */
+export function checkField<F extends ProductField>(
+  field: F,
+  value: FieldValue<F>,
+): string | null {
+  const rule: FieldRule = PRODUCT_SCHEMA[field];
+  switch (rule.type) {
+    case "text":
+      return checkText(rule, value as string | undefined);
+    case "integer":
+      return checkInteger(rule, value as number | undefined);
+    case "money":
+      return checkMoney(rule, value as Money | undefined);
+    case "choice":
+      return checkChoice(rule, value as string | undefined);
+  }
+}
+
+export interface FieldError {
+  field: ProductField;
+  message: string;
+}
+
+// Every field's rules, then the cross-field rules if those all pass
+export function checkProduct(product: ProductFields): FieldError[] {
+  const fields = Object.keys(PRODUCT_SCHEMA) as ProductField[];
+  const errors = fields.flatMap((field) => {
+    const value = field === "currency" ? product.price.currency : product[field];
+    const message = checkField(field, value);
+    return message === null ? [] : [{ field, message }];
+  });
+  if (errors.length > 0) return errors;
+  return PRODUCT_RULES.filter((rule) => !rule.test(product)).map(
+    ({ field, message }) => ({ field, message }),
+  );
+}
+
+export function assertValidField<F extends ProductField>(
+  field: F,
+  value: FieldValue<F>,
+): void {
+  const message = checkField(field, value);
+  if (message !== null) throw new ProductValidationError(field, message);
+}
+
+export function assertValidProduct(product: ProductFields): void {
+  const [error] = checkProduct(product);
+  if (error) throw new ProductValidationError(error.field, error.message);
+}
+
+export interface ParseOptions {
+  // Prices are read in this currency and locale (default: base, en-US)
+  currency?: CurrencyCode;
+  locale?: string;
+}
+
+export type ParseResult<F extends ProductField> =
+  | { ok: true; value: FieldValue<F> }
+  | { ok: false; message: string };
+
+function readValue(
+  rule: FieldRule,
+  text: string,
+  options: ParseOptions,
+): { ok: true; value: unknown } | { ok: false; message: string } {
+  if (text === "") return { ok: true, value: undefined };
+  switch (rule.type) {
+    case "text":
+    case "choice":
+      return { ok: true, value: text };
+    case "integer": {
+      const value = Number(text);
+      return Number.isNaN(value)
+        ? { ok: false, message: "must be a number" }
+        : { ok: true, value };
+    }
+    case "money":
+      try {
+        return {
+          ok: true,
+          value: parseMoney(text, options.currency ?? CURRENCY.BASE, options.locale),
+        };
+      } catch (e) {
+        if (!(e instanceof MoneyFormatError)) throw e;
+        return { ok: false, message: e.message };
+      }
+  }
+}
+
+/**
+ * Reads `field` from submitted text (trimmed; blank counts as missing) and
+ * checks it against the schema.
+ */
+export function parseField<F extends ProductField>(
+  field: F,
+  raw: string | null | undefined,
+  options: ParseOptions = {},
+): ParseResult<F> {
+  const read = readValue(PRODUCT_SCHEMA[field], String(raw ?? "").trim(), options);
+  if (!read.ok) return read;
+  const value = read.value as FieldValue<F>;
+  const message = checkField(field, value);
+  return message === null ? { ok: true, value } : { ok: false, message };
+}
+
+export interface InputOptions {
+  // Text inputs get a pattern in place of min/max/step (default: number)
+  type?: "number" | "text";
+  // The locale a price is typed in (default: en-US)
+  locale?: string;
+  // Quantities that also take +N/-N adjustments
+  signed?: boolean;
+}
+
+/**
+ * The schema's limits for an <input> editing `field`, to spread onto it:
+ * min/max/step on number inputs, and on text inputs a pattern, maxlength
+ * and inputmode the browser can apply; ranges there are left to the server.
+ * `required` is left to the form, since some fall back to a default.
+ */
+export function constraintAttributes(
+  field: ProductField,
+  input: InputOptions = {},
+): Record<string, string | number> {
+  const rule: FieldRule = PRODUCT_SCHEMA[field];
+  if (rule.type === "text") {
+    return {
+      ...(rule.maxLength !== undefined && { maxlength: rule.maxLength }),
+      ...(rule.pattern && { pattern: rule.pattern.source }),
+    };
+  }
+  if (rule.type === "choice") return {};
+  if (input.type !== "text") {
+    return { min: rule.min, max: rule.max, step: rule.step };
+  }
+  if (rule.type === "money") {
+    const locale = input.locale ?? CURRENCY.DEFAULT_LOCALE;
+    const longest = new Intl.NumberFormat(locale, {
+      minimumFractionDigits: MINOR_DIGITS,
+    }).format(rule.max);
+    return {
+      inputmode: "decimal",
+      pattern: moneyInputPattern(locale),
+      maxlength: longest.length,
+    };
+  }
+  const signed = input.signed ?? false;
+  return {
+    // Numeric keypads have no minus key
+    inputmode: signed ? "text" : "numeric",
+    pattern: signed ? "[+\\-]?\\d+" : "\\d+",
+    maxlength: String(rule.max).length + (signed ? 1 : 0),
+  };
+}
@@ -0,0 +1,363 @@
+// Search box query language
+//
+//   lamp "desk lamp"        bare words and quoted phrases
+//   category:audio          field:value (substring match)
+//   -lamp  -category:audio  negation
+//   lamp OR speaker         alternation; adjacent terms are ANDed
+//   (lamp OR hub) -usb      grouping
+//   qty:<5  price:>=100     numeric comparisons (<, <=, >, >=, =)
+//   price:100..500          inclusive range; either end may be left open
+//
+// Prices and subtotals compare in the base currency (USD), whichever
+// currency the page displays.
+import type { Product, SearchField } from "../types";
+import { getBasePrice, getBaseSubtotal } from "./currency";
+import { toMajor } from "./money";
+import { SEARCH_QUERY } from "./config";
+
+export type TextQueryField = SearchField;
+export type NumericQueryField = "id" | "price" | "quantity" | "subtotal";
+export type ComparisonOperator = "<" | "<=" | ">" | ">=" | "=";
+
+export type QueryNode =
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  // field null means the caller's default search field
+  | { type: "text"; field: TextQueryField | null; value: string }
+  | {
+      type: "compare";
+      field: NumericQueryField;
+      operator: ComparisonOperator;
+      value: number;
+    }
+  | { type: "range"; field: NumericQueryField; min?: number; max?: number };
+
+export class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+  ) {
+    super(message);
+    this.name = "QuerySyntaxError";
+  }
+}
+
+const TEXT_FIELDS: Record<string, TextQueryField> = {
+  name: "name",
+  category: "category",
+  cat: "category",
+  description: "description",
+  desc: "description",
+};
+
+const NUMERIC_FIELDS: Record<string, NumericQueryField> = {
+  id: "id",
+  price: "price",
+  quantity: "quantity",
+  qty: "quantity",
+  subtotal: "subtotal",
+};
+
+type Token =
+  | { kind: "word"; value: string; position: number }
+  | { kind: "phrase"; value: string; position: number }
+  | { kind: "field"; name: string; value: string; quoted: boolean; position: number }
+  | { kind: "or" | "not" | "lparen" | "rparen"; position: number };
+
+const SPECIAL = /[\s()"]/;
+
+function readPhrase(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new QuerySyntaxError("Unterminated quoted phrase", start);
+  }
+  return { value: input.slice(start + 1, close), end: close + 1 };
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    const atTermStart =
+      tokens.length === 0 || /[\s(]/.test(input[i - 1] ?? " ");
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(") {
+      tokens.push({ kind: "lparen", position: i++ });
+    } else if (char === ")") {
+      tokens.push({ kind: "rparen", position: i++ });
+    } else if (char === "-" && atTermStart && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+      tokens.push({ kind: "not", position: i++ });
+    } else if (char === '"') {
+      const { value, end } = readPhrase(input, i);
+      tokens.push({ kind: "phrase", value, position: i });
+      i = end;
+    } else {
+      const start = i;
+      while (i < input.length && !SPECIAL.test(input[i]) && input[i] !== ":") i++;
+      const word = input.slice(start, i);
+
+      if (input[i] === ":" && word) {
+        // field:value or field:"quoted value"
+        i++;
+        if (input[i] === '"') {
+          const { value, end } = readPhrase(input, i);
+          tokens.push({ kind: "field", name: word, value, quoted: true, position: start });
+          i = end;
+        } else {
+          const valueStart = i;
+          while (i < input.length && !SPECIAL.test(input[i])) i++;
+          tokens.push({
+            kind: "field",
+            name: word,
+            value: input.slice(valueStart, i),
+            quoted: false,
+            position: start,
+          });
+        }
+      } else if (word === "OR") {
+        tokens.push({ kind: "or", position: start });
+      } else {
+        // A stray colon is just part of the word
+        while (i < input.length && !SPECIAL.test(input[i])) i++;
+        tokens.push({ kind: "word", value: input.slice(start, i), position: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function parseNumber(text: string, field: string, position: number): number {
+  const value = Number(text);
+  if (text === "" || !Number.isFinite(value)) {
+    throw new QuerySyntaxError(`${field} needs a number, got "${text}"`, position);
+  }
+  return value;
+}
+
+function parseNumericValue(
+  field: NumericQueryField,
+  name: string,
+  value: string,
+  position: number,
+): QueryNode {
+  const range = value.match(/^(.*?)\.\.(.*)$/);
+  if (range) {
+    const [, low, high] = range;
+    if (!low && !high) {
+      throw new QuerySyntaxError(`${name} range needs at least one bound`, position);
+    }
+    const min = low ? parseNumber(low, name, position) : undefined;
+    const max = high ? parseNumber(high, name, position) : undefined;
+    if (min !== undefined && max !== undefined && min > max) {
+      throw new QuerySyntaxError(`${name} range ${min}..${max} is empty`, position);
+    }
+    return { type: "range", field, min, max };
+  }
+
+  const comparison = value.match(/^(<=|>=|<|>|=)?(.*)$/)!;
+  const operator = (comparison[1] ?? "=") as ComparisonOperator;
+  return {
+    type: "compare",
+    field,
+    operator,
+    value: parseNumber(comparison[2], name, position),
+  };
+}
+
+function fieldNode(token: Extract<Token, { kind: "field" }>): QueryNode {
+  const key = token.name.toLowerCase();
+
+  const textField = TEXT_FIELDS[key];
+  if (textField) {
+    if (!token.value) {
+      throw new QuerySyntaxError(`${token.name}: needs a value`, token.position);
+    }
+    return { type: "text", field: textField, value: token.value };
+  }
+
+  const numericField = NUMERIC_FIELDS[key];
+  if (numericField) {
+    if (token.quoted) {
+      throw new QuerySyntaxError(`${token.name} needs a number, not a phrase`, token.position);
+    }
+    return parseNumericValue(numericField, token.name, token.value, token.position);
+  }
+
+  throw new QuerySyntaxError(`Unknown field "${token.name}"`, token.position);
+}
+
+class Parser {
+  private index = 0;
+  // Groups and negations open so far; capped so the recursion stays shallow
+  private depth = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly inputLength: number,
+  ) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new QuerySyntaxError(
+        extra.kind === "rparen" ? "Unexpected )" : "Unexpected input",
+        extra.position,
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private nested<T>(token: Token, parse: () => T): T {
+    if (this.depth >= SEARCH_QUERY.MAX_DEPTH) {
+      throw new QuerySyntaxError(
+        `Query nests more than ${SEARCH_QUERY.MAX_DEPTH} levels deep`,
+        token.position,
+      );
+    }
+    this.depth++;
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.kind === "or") {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children: QueryNode[] = [];
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.kind === "or" || token.kind === "rparen") break;
+      children.push(this.parseUnary());
+    }
+    if (children.length === 0) {
+      const token = this.peek();
+      throw new QuerySyntaxError(
+        token?.kind === "or" ? "OR needs a term on both sides" : "Expected a search term",
+        token?.position ?? this.inputLength,
+      );
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek()!;
+    if (token.kind === "not") {
+      this.index++;
+      if (!this.peek()) {
+        throw new QuerySyntaxError("- needs a term to exclude", token.position);
+      }
+      return { type: "not", child: this.nested(token, () => this.parseUnary()) };
+    }
+    return this.parseTerm();
+  }
+
+  private parseTerm(): QueryNode {
+    const token = this.tokens[this.index++];
+    switch (token.kind) {
+      case "word":
+      case "phrase":
+        return { type: "text", field: null, value: token.value };
+      case "field":
+        return fieldNode(token);
+      case "lparen": {
+        const node = this.nested(token, () => this.parseOr());
+        if (this.peek()?.kind !== "rparen") {
+          throw new QuerySyntaxError("Missing )", token.position);
+        }
+        this.index++;
+        return node;
+      }
+      default:
+        throw new QuerySyntaxError("Expected a search term", token.position);
+    }
+  }
+}
+
+/**
+ * Parse a search box query. Returns null for a blank query and throws
+ * QuerySyntaxError with the offending position when the query is invalid,
+ * longer than SEARCH_QUERY.MAX_LENGTH or nested deeper than MAX_DEPTH.
+ */
+export function parseQuery(input: string): QueryNode | null {
+  if (input.length > SEARCH_QUERY.MAX_LENGTH) {
+    throw new QuerySyntaxError(
+      `Query is longer than ${SEARCH_QUERY.MAX_LENGTH} characters`,
+      SEARCH_QUERY.MAX_LENGTH,
+    );
+  }
+  const tokens = tokenize(input);
+  if (tokens.length === 0) return null;
+  return new Parser(tokens, input.length).parse();
+}
+
+// Prices compare in the base currency, as the price filters do
+function numericValue(product: Product, field: NumericQueryField): number {
+  if (field === "price") return toMajor(getBasePrice(product));
+  return field === "subtotal" ? toMajor(getBaseSubtotal(product)) : product[field];
+}
+
+function compare(actual: number, operator: ComparisonOperator, expected: number): boolean {
+  switch (operator) {
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "=":
+      return actual === expected;
+  }
+}
+
+/**
+ * Whether `product` matches the query. Terms without a field are matched
+ * against `defaultField`.
+ */
+export function evaluateQuery(
+  node: QueryNode,
+  product: Product,
+  defaultField: TextQueryField = "name",
+): boolean {
+  switch (node.type) {
+    case "and":
+      return node.children.every((child) => evaluateQuery(child, product, defaultField));
+    case "or":
+      return node.children.some((child) => evaluateQuery(child, product, defaultField));
+    case "not":
+      return !evaluateQuery(node.child, product, defaultField);
+    case "text":
+      return (product[node.field ?? defaultField] ?? "")
+        .toLowerCase()
+        .includes(node.value.toLowerCase());
+    case "compare":
+      return compare(numericValue(product, node.field), node.operator, node.value);
+    case "range": {
+      const value = numericValue(product, node.field);
+      return (
+        (node.min === undefined || value >= node.min) &&
+        (node.max === undefined || value <= node.max)
+      );
+    }
+  }
+}
@@ -0,0 +1,45 @@
+// Products below their reorder threshold, with how many of each to order
+import { getMatchingProducts, type ProductWithCurrency } from "./store";
+import { getReorderThreshold, getSuggestedOrderQuantity } from "./stock";
+import { toBaseMoney } from "./currency";
+import { multiplyMoney, sumMoney } from "./money";
+import type { Money } from "../types";
+
+export interface ReorderLine {
+  product: ProductWithCurrency;
+  threshold: number;
+  suggestedQuantity: number;
+  // The suggested order at the current price, in the product's currency
+  orderCost: Money;
+}
+
+export interface ReorderReport {
+  lines: ReorderLine[];
+  totalUnits: number;
+  // In the base currency
+  totalCost: Money;
+}
+
+// Sorted by category, so lines for the same supplier sit together
+export function getReorderReport(): ReorderReport {
+  const lines = getMatchingProducts({
+    filters: { lowStock: true },
+    sortKeys: [
+      { field: "category", order: "asc" },
+      { field: "name", order: "asc" },
+    ],
+  }).map((product) => {
+    const suggestedQuantity = getSuggestedOrderQuantity(product);
+    return {
+      product,
+      threshold: getReorderThreshold(product),
+      suggestedQuantity,
+      orderCost: multiplyMoney(product.price, suggestedQuantity),
+    };
+  });
+  return {
+    lines,
+    totalUnits: lines.reduce((sum, line) => sum + line.suggestedQuantity, 0),
+    totalCost: sumMoney(lines.map((line) => toBaseMoney(line.orderCost))),
+  };
+}
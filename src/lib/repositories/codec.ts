@@ -0,0 +1,45 @@
+import type { Product } from "../../types";
+import { CURRENCY } from "../config";
+import { fromMajor } from "../money";
+import { isCurrencyCode } from "../type-guards";
+
+const DATE_FIELDS = ["createdAt", "updatedAt", "deletedAt"] as const;
+
+// JSON round-trips dates as strings; turn them back into Date objects
+export function reviveDates(
+  raw: Record<string, unknown>,
+  fields: readonly string[],
+): Record<string, unknown> {
+  const record = { ...raw };
+  for (const field of fields) {
+    const value = record[field];
+    if (typeof value === "string") {
+      record[field] = new Date(value);
+    }
+  }
+  return record;
+}
+
+export function reviveProduct(raw: Record<string, unknown>): Product {
+  const product = reviveDates(raw, DATE_FIELDS);
+  // Rows written before products were versioned start at version 1
+  if (typeof product.version !== "number") {
+    product.version = 1;
+  }
+  // Rows written before prices were Money hold a float in `price` and,
+  // if they have one, the currency beside it
+  if (typeof product.price === "number") {
+    const currency = isCurrencyCode(product.currency) ? product.currency : CURRENCY.BASE;
+    product.price = fromMajor(product.price, currency);
+    delete product.currency;
+  }
+  return product as unknown as Product;
+}
+
+export function serializeProduct(product: Product): string {
+  return JSON.stringify(product);
+}
+
+export function deserializeProduct(json: string): Product {
+  return reviveProduct(JSON.parse(json) as Record<string, unknown>);
+}
@@ -0,0 +1,51 @@
+import type { PersistenceDriver } from "../server-config";
+import path from "node:path";
+import type { AppendLog, ProductRepository } from "./types";
+import { createMemoryLog, createMemoryRepository } from "./memory";
+import { createJsonFileRepository, createJsonLinesLog } from "./json-file";
+import { createSqliteLog, createSqliteRepository } from "./sqlite";
+
+export type { AppendLog, ProductRepository } from "./types";
+export { reviveDates } from "./codec";
+
+export interface RepositoryConfig {
+  DRIVER: PersistenceDriver;
+  JSON_PATH: string;
+  SQLITE_PATH: string;
+}
+
+export function createProductRepository(
+  config: RepositoryConfig,
+): ProductRepository {
+  switch (config.DRIVER) {
+    case "json":
+      return createJsonFileRepository(config.JSON_PATH);
+    case "sqlite":
+      return createSqliteRepository(config.SQLITE_PATH);
+    case "memory":
+      return createMemoryRepository();
+  }
+}
+
+/**
+ * An append-only log kept beside the products: `<name>.jsonl` next to the
+ * JSON store, or a `<name>` table in the SQLite database. `revive` rebuilds
+ * each record from its JSON form.
+ */
+export function createAppendLog<T>(
+  config: RepositoryConfig,
+  name: string,
+  revive: (raw: Record<string, unknown>) => T,
+): AppendLog<T> {
+  switch (config.DRIVER) {
+    case "json":
+      return createJsonLinesLog(
+        path.join(path.dirname(config.JSON_PATH), `${name}.jsonl`),
+        revive,
+      );
+    case "sqlite":
+      return createSqliteLog(config.SQLITE_PATH, name, revive);
+    case "memory":
+      return createMemoryLog();
+  }
+}
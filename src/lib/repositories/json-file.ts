@@ -0,0 +1,145 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { Product } from "../../types";
+import type { AppendLog, ProductRepository } from "./types";
+import { createMemoryRepository } from "./memory";
+import { isInTransaction, joinTransaction } from "./transaction";
+import { reviveProduct } from "./codec";
+
+/**
+ * Keeps products in memory and rewrites the whole file after every mutation,
+ * or once when a transaction commits. Writes go to a temp file first so a
+ * crash never leaves a truncated store.
+ */
+export function createJsonFileRepository(filePath: string): ProductRepository {
+  const resolved = path.resolve(filePath);
+  const cache = createMemoryRepository();
+
+  if (fs.existsSync(resolved)) {
+    const raw = JSON.parse(fs.readFileSync(resolved, "utf8")) as unknown;
+    if (!Array.isArray(raw)) {
+      throw new Error(`Product store ${resolved} must contain a JSON array`);
+    }
+    raw.forEach((row) => cache.insert(reviveProduct(row as Record<string, unknown>)));
+  }
+
+  function persist(): void {
+    fs.mkdirSync(path.dirname(resolved), { recursive: true });
+    const tmp = `${resolved}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(cache.list(), null, 2));
+    fs.renameSync(tmp, resolved);
+  }
+
+  // Set while a transaction's writes wait for it to commit
+  let deferred = false;
+
+  // Joins before the cache does, so on rollback the cache is restored first
+  // and a file already written can be put back from it
+  function beforeWrite(): void {
+    if (deferred || !isInTransaction()) return;
+    deferred = true;
+    let written = false;
+    joinTransaction({
+      commit: () => {
+        deferred = false;
+        persist();
+        written = true;
+      },
+      rollback: () => {
+        deferred = false;
+        if (written) persist();
+      },
+    });
+  }
+
+  function afterWrite(): void {
+    if (!deferred) persist();
+  }
+
+  return {
+    ...cache,
+    insert: (product: Product) => {
+      beforeWrite();
+      cache.insert(product);
+      afterWrite();
+    },
+    update: (product: Product) => {
+      beforeWrite();
+      cache.update(product);
+      afterWrite();
+    },
+    remove: (id: number) => {
+      beforeWrite();
+      const removed = cache.remove(id);
+      if (removed) afterWrite();
+      return removed;
+    },
+  };
+}
+
+/**
+ * One JSON document per line. Records are only ever appended, so each write
+ * adds a line instead of rewriting the file. In a transaction the lines are
+ * held back and written together on commit.
+ */
+export function createJsonLinesLog<T>(
+  filePath: string,
+  revive: (raw: Record<string, unknown>) => T,
+): AppendLog<T> {
+  const resolved = path.resolve(filePath);
+  const records: T[] = [];
+
+  if (fs.existsSync(resolved)) {
+    const content = fs.readFileSync(resolved, "utf8");
+    const lines = content.split("\n");
+    // Every complete line ends in a newline; anything after the last one
+    // was cut short, and is truncated so the next append starts cleanly
+    const partial = lines.pop() ?? "";
+    if (partial !== "") {
+      fs.truncateSync(resolved, Buffer.byteLength(content) - Buffer.byteLength(partial));
+    }
+    lines
+      .filter((line) => line !== "")
+      .forEach((line) => records.push(revive(JSON.parse(line) as Record<string, unknown>)));
+  }
+
+  function write(lines: string): void {
+    fs.mkdirSync(path.dirname(resolved), { recursive: true });
+    fs.appendFileSync(resolved, lines);
+  }
+
+  // Lines waiting for the open transaction to commit; null outside one
+  let pending: string[] | null = null;
+
+  return {
+    list: () => [...records],
+    append: (record) => {
+      const line = `${JSON.stringify(record)}\n`;
+      if (pending) {
+        pending.push(line);
+      } else if (isInTransaction()) {
+        const length = records.length;
+        // A later participant can still fail after these lines are written
+        const size = fs.existsSync(resolved) ? fs.statSync(resolved).size : 0;
+        let written = false;
+        pending = [line];
+        joinTransaction({
+          commit: () => {
+            const lines = pending ?? [];
+            pending = null;
+            write(lines.join(""));
+            written = true;
+          },
+          rollback: () => {
+            pending = null;
+            records.length = length;
+            if (written) fs.truncateSync(resolved, size);
+          },
+        });
+      } else {
+        write(line);
+      }
+      records.push(record);
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import type { Product } from "../../types";
+import type { AppendLog, ProductRepository } from "./types";
+import { isInTransaction, joinTransaction, runTransaction } from "./transaction";
+
+export function createMemoryRepository(): ProductRepository {
+  const rows = new Map<number, Product>();
+  // The rows as they were when the open transaction first wrote
+  let snapshot: Map<number, Product> | null = null;
+
+  function beforeWrite(): void {
+    if (snapshot || !isInTransaction()) return;
+    snapshot = new Map(rows);
+    joinTransaction({
+      commit: () => {
+        snapshot = null;
+      },
+      rollback: () => {
+        rows.clear();
+        snapshot?.forEach((product, id) => rows.set(id, product));
+        snapshot = null;
+      },
+    });
+  }
+
+  return {
+    list: () => [...rows.values()],
+    findById: (id) => rows.get(id),
+    insert: (product) => {
+      beforeWrite();
+      rows.set(product.id, product);
+    },
+    update: (product) => {
+      beforeWrite();
+      rows.set(product.id, product);
+    },
+    remove: (id) => {
+      beforeWrite();
+      return rows.delete(id);
+    },
+    count: () => rows.size,
+    nextId: () => {
+      let max = 0;
+      for (const id of rows.keys()) max = Math.max(max, id);
+      return max + 1;
+    },
+    transaction: (fn) => runTransaction(fn),
+  };
+}
+
+export function createMemoryLog<T>(): AppendLog<T> {
+  const records: T[] = [];
+  let joined = false;
+
+  return {
+    list: () => [...records],
+    append: (record) => {
+      if (!joined && isInTransaction()) {
+        const length = records.length;
+        joined = true;
+        joinTransaction({
+          commit: () => {
+            joined = false;
+          },
+          rollback: () => {
+            records.length = length;
+            joined = false;
+          },
+        });
+      }
+      records.push(record);
+    },
+  };
+}
@@ -0,0 +1,150 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import type { Product, ProductFilters } from "../../types";
+import type { AppendLog, ProductRepository } from "./types";
+import { serializeProduct, deserializeProduct } from "./codec";
+import { runTransaction } from "./transaction";
+
+// Products and their logs share one connection per database file
+const connections = new Map<string, Database.Database>();
+
+function openDatabase(filePath: string): Database.Database {
+  let db = connections.get(filePath);
+  if (!db) {
+    if (filePath !== ":memory:") {
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    }
+    db = new Database(filePath);
+    db.pragma("journal_mode = WAL");
+    connections.set(filePath, db);
+  }
+  return db;
+}
+
+// Text filters and the JSON field each one searches
+const TEXT_FILTERS = [
+  ["nameContains", "$.name"],
+  ["categoryContains", "$.category"],
+  ["descriptionContains", "$.description"],
+] as const;
+
+/**
+ * WHERE conditions for the filters SQL can apply. Prices are compared in the
+ * base currency and low stock depends on configured thresholds, so those are
+ * left to the store.
+ */
+function filterConditions(filters: ProductFilters): { sql: string[]; values: unknown[] } {
+  const sql: string[] = [];
+  const values: unknown[] = [];
+  TEXT_FILTERS.forEach(([filter, field]) => {
+    const term = filters[filter];
+    if (term) {
+      sql.push(`contains_text(json_extract(data, '${field}'), ?)`);
+      values.push(term);
+    }
+  });
+  if (filters.minQuantity !== undefined) {
+    sql.push("json_extract(data, '$.quantity') >= ?");
+    values.push(filters.minQuantity);
+  }
+  if (filters.maxQuantity !== undefined) {
+    sql.push("json_extract(data, '$.quantity') <= ?");
+    values.push(filters.maxQuantity);
+  }
+  return { sql, values };
+}
+
+/**
+ * Rows are stored as JSON documents keyed by id, so the table doesn't need a
+ * migration every time Product gains a field.
+ */
+export function createSqliteRepository(filePath: string): ProductRepository {
+  const db = openDatabase(filePath);
+  db.exec(
+    "CREATE TABLE IF NOT EXISTS products (id INTEGER PRIMARY KEY, data TEXT NOT NULL)",
+  );
+  // Case-insensitive like the store's own text filters; SQLite's LIKE and
+  // lower() only fold ASCII
+  db.function("contains_text", { deterministic: true }, (value, term) =>
+    String(value ?? "").toLowerCase().includes(String(term).toLowerCase()) ? 1 : 0,
+  );
+
+  const selectAll = db.prepare<[], { data: string }>(
+    "SELECT data FROM products ORDER BY rowid",
+  );
+  const selectOne = db.prepare<[number], { data: string }>(
+    "SELECT data FROM products WHERE id = ?",
+  );
+  const insertRow = db.prepare<[number, string]>(
+    "INSERT INTO products (id, data) VALUES (?, ?)",
+  );
+  const updateRow = db.prepare<[string, number]>(
+    "UPDATE products SET data = ? WHERE id = ?",
+  );
+  const deleteRow = db.prepare<[number]>("DELETE FROM products WHERE id = ?");
+  const countRows = db.prepare<[], { total: number }>(
+    "SELECT COUNT(*) AS total FROM products",
+  );
+  const maxId = db.prepare<[], { maxId: number | null }>(
+    "SELECT MAX(id) AS maxId FROM products",
+  );
+
+  return {
+    list: () => selectAll.all().map((row) => deserializeProduct(row.data)),
+    findById: (id) => {
+      const row = selectOne.get(id);
+      return row ? deserializeProduct(row.data) : undefined;
+    },
+    insert: (product: Product) => {
+      insertRow.run(product.id, serializeProduct(product));
+    },
+    update: (product: Product) => {
+      updateRow.run(serializeProduct(product), product.id);
+    },
+    remove: (id) => deleteRow.run(id).changes > 0,
+    count: () => countRows.get()?.total ?? 0,
+    nextId: () => (maxId.get()?.maxId ?? 0) + 1,
+    search: (filters) => {
+      const { sql, values } = filterConditions(filters);
+      if (sql.length === 0) return null;
+      const where = ["json_extract(data, '$.deletedAt') IS NULL", ...sql].join(" AND ");
+      return db
+        .prepare<unknown[], { data: string }>(`SELECT data FROM products WHERE ${where}`)
+        .all(...values)
+        .map((row) => deserializeProduct(row.data));
+    },
+    // Logs share the connection, so their writes are part of it too
+    transaction: (fn) => runTransaction(fn, (inner) => db.transaction(inner)()),
+  };
+}
+
+/**
+ * Appended records are JSON documents in `table`, in insertion order.
+ */
+export function createSqliteLog<T>(
+  filePath: string,
+  table: string,
+  revive: (raw: Record<string, unknown>) => T,
+): AppendLog<T> {
+  if (!/^[a-z_]+$/.test(table)) {
+    throw new Error(`Invalid log table name: ${table}`);
+  }
+  const db = openDatabase(filePath);
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS ${table} (seq INTEGER PRIMARY KEY AUTOINCREMENT, data TEXT NOT NULL)`,
+  );
+
+  const selectAll = db.prepare<[], { data: string }>(
+    `SELECT data FROM ${table} ORDER BY seq`,
+  );
+  const insertRow = db.prepare<[string]>(`INSERT INTO ${table} (data) VALUES (?)`);
+
+  return {
+    list: () =>
+      selectAll.all().map((row) => revive(JSON.parse(row.data) as Record<string, unknown>)),
+    append: (record) => {
+      insertRow.run(JSON.stringify(record));
+    },
+  };
+}
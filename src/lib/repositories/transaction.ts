@@ -0,0 +1,47 @@
+/**
+ * Adapters that keep state outside a database join the open transaction the
+ * first time they write in it, with hooks to make their writes stick or to
+ * put their state back.
+ */
+export interface TransactionParticipant {
+  // May throw, e.g. on a failed file write; the transaction then rolls back
+  commit(): void;
+  rollback(): void;
+}
+
+// Null when no transaction is open
+let participants: TransactionParticipant[] | null = null;
+
+export function isInTransaction(): boolean {
+  return participants !== null;
+}
+
+export function joinTransaction(participant: TransactionParticipant): void {
+  participants?.push(participant);
+}
+
+/**
+ * Runs `fn` so that its writes land together: all of them, or on a throw
+ * none. `wrap` runs it inside a database transaction where there is one.
+ * Nested calls join the outer transaction.
+ */
+export function runTransaction<T>(
+  fn: () => T,
+  wrap: (fn: () => T) => T = (inner) => inner(),
+): T {
+  if (participants) return fn();
+
+  const joined: TransactionParticipant[] = [];
+  participants = joined;
+  try {
+    const result = wrap(fn);
+    participants = null;
+    joined.forEach((participant) => participant.commit());
+    return result;
+  } catch (error) {
+    participants = null;
+    // Last joined first, so wrappers restore after what they wrap
+    [...joined].reverse().forEach((participant) => participant.rollback());
+    throw error;
+  }
+}
@@ -0,0 +1,37 @@
+import type { Product, ProductFilters } from "../../types";
+
+/**
+ * Storage contract the product store sits on top of. Adapters persist and
+ * retrieve products; validation, sorting and the final say on filtering stay
+ * in store.ts.
+ */
+export interface ProductRepository {
+  list(): Product[];
+  findById(id: number): Product | undefined;
+  insert(product: Product): void;
+  update(product: Product): void;
+  remove(id: number): boolean;
+  count(): number;
+  nextId(): number;
+  /**
+   * Live products narrowed by whichever `filters` the storage can apply
+   * itself, in no particular order. Every matching product must be
+   * returned; the store re-checks each one, so extras are harmless. Returns
+   * null when none of the filters can be applied in storage.
+   */
+  search?(filters: ProductFilters): Product[] | null;
+  /**
+   * Runs `fn` so that every write it makes, to the products and to the logs
+   * kept beside them, lands together: all of them, or on a throw none.
+   */
+  transaction<T>(fn: () => T): T;
+}
+
+/**
+ * Storage for records that are only ever appended, such as stock movements
+ * or audit entries. `list` returns them in the order they were appended.
+ */
+export interface AppendLog<T> {
+  list(): T[];
+  append(record: T): void;
+}
@@ -0,0 +1,85 @@
+// Server-only configuration read from the environment.
+// Unlike config.ts this module must never be imported by client code.
+
+export type PersistenceDriver = "memory" | "json" | "sqlite";
+
+const PERSISTENCE_DRIVERS: readonly PersistenceDriver[] = [
+  "memory",
+  "json",
+  "sqlite",
+];
+
+function readEnv(name: string): string | undefined {
+  if (typeof process === "undefined") return undefined;
+  const value = process.env[name];
+  return value === undefined || value === "" ? undefined : value;
+}
+
+function readDriver(name: string, fallback: PersistenceDriver): PersistenceDriver {
+  const value = readEnv(name);
+  if (value === undefined) return fallback;
+  if (!PERSISTENCE_DRIVERS.includes(value as PersistenceDriver)) {
+    throw new Error(
+      `${name} must be one of ${PERSISTENCE_DRIVERS.join(", ")}. Received: ${value}`,
+    );
+  }
+  return value as PersistenceDriver;
+}
+
+function readBoolean(name: string, fallback: boolean): boolean {
+  const value = readEnv(name);
+  if (value === undefined) return fallback;
+  return value === "true" || value === "1";
+}
+
+// "kid1:secret1,kid2:secret2" -> { kid1: "secret1", kid2: "secret2" }
+function readKeyList(name: string): Record<string, string> {
+  const value = readEnv(name);
+  if (value === undefined) return {};
+  return Object.fromEntries(
+    value.split(",").map((entry) => {
+      const separator = entry.indexOf(":");
+      if (separator <= 0) {
+        throw new Error(`${name} entries must look like kid:secret`);
+      }
+      return [entry.slice(0, separator).trim(), entry.slice(separator + 1).trim()];
+    }),
+  );
+}
+
+function readSeed(name: string): number | undefined {
+  const value = readEnv(name);
+  if (value === undefined) return undefined;
+  const seed = Number(value);
+  if (!Number.isInteger(seed)) {
+    throw new Error(`${name} must be an integer. Received: ${value}`);
+  }
+  return seed;
+}
+
+export const PERSISTENCE = {
+  // PRODUCT_STORE=memory|json|sqlite
+  DRIVER: readDriver("PRODUCT_STORE", "memory"),
+  JSON_PATH: readEnv("PRODUCT_STORE_JSON_PATH") ?? "./data/products.json",
+  SQLITE_PATH: readEnv("PRODUCT_STORE_SQLITE_PATH") ?? "./data/products.db",
+  // Fixed seed for reproducible demo data; random when unset
+  SEED: readSeed("PRODUCT_SEED"),
+} as const;
+
+const JWT_SECRET = readEnv("JWT_SECRET");
+
+export const AUTH = {
+  // Falls back to the built-in demo user when a request has no token.
+  // On by default under `astro dev`; set AUTH_DEV_MODE=false to disable.
+  DEV_MODE: readBoolean("AUTH_DEV_MODE", import.meta.env.DEV),
+  // HS256 secrets by kid. JWT_SECRET covers tokens that carry no kid.
+  HMAC_KEYS: {
+    ...(JWT_SECRET ? { default: JWT_SECRET } : {}),
+    ...readKeyList("JWT_HS256_KEYS"),
+  } as Record<string, string>,
+  // Local JWKS file with RS256 public keys, re-read when it changes
+  JWKS_PATH: readEnv("JWT_JWKS_PATH"),
+  ISSUER: readEnv("JWT_ISSUER"),
+  AUDIENCE: readEnv("JWT_AUDIENCE"),
+  CLOCK_TOLERANCE_SECONDS: 30,
+} as const;
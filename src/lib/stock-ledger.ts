@@ -0,0 +1,173 @@
+// Stock movements per product; a product's quantity is the sum of its ledger
+import type { JWTPayload } from "./jwt";
+import { ANONYMOUS_USERNAME } from "./audit-log";
+import { VALIDATION_RULES } from "./config";
+import { PERSISTENCE } from "./server-config";
+import { createAppendLog, reviveDates } from "./repositories";
+
+// "opening" is the stock a product had when its ledger started: its initial
+// quantity, or whatever a product stored before it had a ledger held
+export type MovementReason = "opening" | "receive" | "sell" | "adjust" | "return";
+
+// Reasons a user can record a movement with
+export const MOVEMENT_REASONS = [
+  "receive",
+  "sell",
+  "adjust",
+  "return",
+] as const satisfies readonly MovementReason[];
+
+export type RecordableReason = (typeof MOVEMENT_REASONS)[number];
+
+export interface StockMovement {
+  id: number;
+  productId: number;
+  // Signed: receipts and returns add stock, sales take it away
+  delta: number;
+  reason: MovementReason;
+  // Stock after this movement
+  balance: number;
+  userId: number | null;
+  username: string;
+  // Null for stock that was already on hand when the ledger started
+  timestamp: Date | null;
+}
+
+export class StockMovementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StockMovementError";
+  }
+}
+
+// Persisted beside the products; ledgers below are an index over it
+const log = createAppendLog<Readonly<StockMovement>>(
+  PERSISTENCE,
+  "stock_movements",
+  (raw) => Object.freeze(reviveDates(raw, ["timestamp"]) as unknown as StockMovement),
+);
+
+// Oldest first; movements are frozen and never removed
+const ledgers = new Map<number, Readonly<StockMovement>[]>();
+let nextId = 1;
+
+/**
+ * Rebuilds the ledgers from the log. Run at startup, and by the store after
+ * a transaction rolls back the movements it had appended.
+ */
+export function reloadStockLedgers(): void {
+  ledgers.clear();
+  nextId = 1;
+  log.list().forEach((movement) => {
+    const ledger = ledgers.get(movement.productId) ?? [];
+    ledger.push(movement);
+    ledgers.set(movement.productId, ledger);
+    nextId = Math.max(nextId, movement.id + 1);
+  });
+}
+
+reloadStockLedgers();
+
+function append(
+  productId: number,
+  delta: number,
+  reason: MovementReason,
+  actor: JWTPayload | null,
+  timestamp: Date | null = new Date(),
+): Readonly<StockMovement> {
+  const ledger = ledgers.get(productId) ?? [];
+  const movement = Object.freeze({
+    id: nextId++,
+    productId,
+    delta,
+    reason,
+    balance: (ledger[ledger.length - 1]?.balance ?? 0) + delta,
+    userId: actor?.userId ?? null,
+    username: actor?.username ?? ANONYMOUS_USERNAME,
+    timestamp,
+  });
+  log.append(movement);
+  ledger.push(movement);
+  ledgers.set(productId, ledger);
+  return movement;
+}
+
+// Starts a ledger with an opening balance; a no-op if one already exists
+export function openLedger(
+  productId: number,
+  quantity: number,
+  actor: JWTPayload | null = null,
+  timestamp: Date | null = new Date(),
+): void {
+  if (!ledgers.has(productId)) {
+    append(productId, quantity, "opening", actor, timestamp);
+  }
+}
+
+/**
+ * Appends a movement, rejecting it if the balance would leave the allowed
+ * quantity range. Only an adjustment may be zero: a count that confirmed
+ * the stock on hand.
+ */
+export function recordMovement(
+  productId: number,
+  delta: number,
+  reason: RecordableReason,
+  actor: JWTPayload | null = null,
+): Readonly<StockMovement> {
+  const balance = getStockBalance(productId);
+  if (balance === undefined) {
+    throw new Error(`No stock ledger for product ${productId}`);
+  }
+  if (!Number.isInteger(delta) || (delta === 0 && reason !== "adjust")) {
+    throw new StockMovementError("A stock movement must be a non-zero whole number");
+  }
+  if (balance + delta < VALIDATION_RULES.MIN_QUANTITY) {
+    throw new StockMovementError(`Only ${balance} in stock`);
+  }
+  if (balance + delta > VALIDATION_RULES.MAX_QUANTITY) {
+    throw new StockMovementError(
+      `Stock cannot exceed ${VALIDATION_RULES.MAX_QUANTITY}`,
+    );
+  }
+  return append(productId, delta, reason, actor);
+}
+
+export function getStockBalance(productId: number): number | undefined {
+  const ledger = ledgers.get(productId);
+  return ledger?.[ledger.length - 1]?.balance;
+}
+
+export function getStockMovements(productId: number): readonly StockMovement[] {
+  return ledgers.get(productId) ?? [];
+}
+
+export function isRecordableReason(value: unknown): value is RecordableReason {
+  return (MOVEMENT_REASONS as readonly unknown[]).includes(value);
+}
+
+export type QuantityInput =
+  | { kind: "absolute"; quantity: number }
+  | { kind: "delta"; delta: number; reason: "receive" | "sell" };
+
+/**
+ * Reads the inline quantity editor: "+5" receives five, "-3" sells three
+ * and a bare number sets the count. Returns null for anything else.
+ */
+export function parseQuantityInput(raw: string): QuantityInput | null {
+  const match = /^\s*([+-]?)(\d+)\s*$/.exec(raw);
+  if (!match) return null;
+  const amount = Number(match[2]);
+  if (!match[1]) return { kind: "absolute", quantity: amount };
+  if (amount === 0) return null;
+  return match[1] === "+"
+    ? { kind: "delta", delta: amount, reason: "receive" }
+    : { kind: "delta", delta: -amount, reason: "sell" };
+}
+
+// Receipts and returns add stock and sales remove it whatever sign was
+// typed; an adjustment keeps its sign
+export function toMovementDelta(reason: RecordableReason, amount: number): number {
+  if (reason === "adjust") return amount;
+  return reason === "sell" ? -Math.abs(amount) : Math.abs(amount);
+}
@@ -0,0 +1,27 @@
+// Reorder thresholds: when a product counts as low on stock and how much to order
+import { REORDER, VALIDATION_RULES } from "./config";
+import type { Product } from "../types";
+
+export function getReorderThreshold(product: Product): number {
+  // Own keys only, so a category like "constructor" can't pick up Object members
+  const categoryThreshold = Object.hasOwn(REORDER.CATEGORY_THRESHOLDS, product.category)
+    ? REORDER.CATEGORY_THRESHOLDS[product.category]
+    : undefined;
+  return (
+    product.reorderThreshold ?? categoryThreshold ?? REORDER.DEFAULT_THRESHOLD
+  );
+}
+
+export function isLowStock(product: Product): boolean {
+  return product.quantity < getReorderThreshold(product);
+}
+
+// Enough to bring stock back up to the restock level; zero if not low
+export function getSuggestedOrderQuantity(product: Product): number {
+  if (!isLowStock(product)) return 0;
+  const target = Math.min(
+    getReorderThreshold(product) * REORDER.RESTOCK_MULTIPLIER,
+    VALIDATION_RULES.MAX_QUANTITY,
+  );
+  return Math.max(0, Math.ceil(target - product.quantity));
+}
@@ -1,6 +1,46 @@
-import type { Product, ProductTotals } from "../types";
+import type {
+  CategoryFacet,
+  CategoryTotals,
+  Money,
+  Product,
+  ProductFilters,
+  ProductInput,
+  ProductTotals,
+  SearchField,
+  SortKey,
+} from "../types";
 import { isValidProduct } from "./type-guards";
-import { VALIDATION_RULES, PAGINATION } from "./config";
+import { isLowStock } from "./stock";
+import { getBasePrice, getBaseSubtotal } from "./currency";
+import { PAGINATION, TOMBSTONES } from "./config";
+import {
+  addMoney,
+  fromMajor,
+  multiplyMoney,
+  toMajor,
+  zeroMoney,
+} from "./money";
+import {
+  assertValidField,
+  assertValidProduct,
+  ProductValidationError,
+} from "./product-schema";
+import { PERSISTENCE } from "./server-config";
+import { createRandom } from "./random";
+import { createProductRepository } from "./repositories";
+import { recordAuditEntry } from "./audit-log";
+import { recordPriceHistory } from "./price-history";
+import {
+  getStockBalance,
+  openLedger,
+  recordMovement,
+  reloadStockLedgers,
+  type RecordableReason,
+} from "./stock-ledger";
+import { broadcastMutation } from "./live-events";
+import { parseQuery, evaluateQuery } from "./query-parser";
+import type { JWTPayload } from "./jwt";
+import type { ProductCursor } from "./cursor";
 
 export interface ProductWithCurrency extends Product {
   // No additional properties needed currently
@@ -8,158 +48,812 @@ export interface ProductWithCurrency extends Product {
 
 export const PAGE_SIZE = PAGINATION.DEFAULT_PAGE_SIZE;
 
-function seedProducts(): ProductWithCurrency[] {
-  const names: readonly string[] = [
-    "Aurora Headphones",
-    "Lumen Desk Lamp",
-    "Nimbus Router",
-    "Solace Monitor",
-    "Pulse Keyboard",
-    "Echo Speakers",
-    "Quanta Mouse",
-    "Zenith Webcam",
-    "Vertex Laptop Stand",
-    "Nova USB Hub",
+// Who is making a change; routes pass Astro.locals.jwt through
+export interface MutationContext {
+  actor?: JWTPayload | null;
+}
+
+export interface UpdateContext extends MutationContext {
+  // Version the caller last saw; the write is rejected if it is stale
+  expectedVersion?: number;
+}
+
+export class VersionConflictError extends Error {
+  constructor(public readonly current: ProductWithCurrency) {
+    super(
+      `Product ${current.id} has changed since it was loaded (now at version ${current.version})`,
+    );
+    this.name = "VersionConflictError";
+  }
+}
+
+// Fields that can be edited inline
+export type EditableField = "price" | "quantity" | "category";
+// Fields an update can change; the reorder threshold is set on the product page
+export type UpdatedField = EditableField | "reorderThreshold";
+
+export type ProductMutation =
+  | { type: "created"; product: ProductWithCurrency; actor: JWTPayload | null }
+  | {
+      type: "updated";
+      product: ProductWithCurrency;
+      previous: ProductWithCurrency;
+      field: UpdatedField;
+      actor: JWTPayload | null;
+    }
+  | { type: "deleted"; product: ProductWithCurrency; actor: JWTPayload | null }
+  | { type: "restored"; product: ProductWithCurrency; actor: JWTPayload | null };
+
+type MutationListener = (mutation: ProductMutation) => void;
+
+const mutationListeners = new Set<MutationListener>();
+
+/**
+ * Subscribe to every create/update/delete the store performs.
+ * Returns an unsubscribe function.
+ */
+export function onProductMutation(listener: MutationListener): () => void {
+  mutationListeners.add(listener);
+  return () => mutationListeners.delete(listener);
+}
+
+// Mutations made in the open transaction, told to listeners once it commits
+let pendingMutations: ProductMutation[] | null = null;
+
+function notifyMutation(mutation: ProductMutation): void {
+  if (pendingMutations) {
+    pendingMutations.push(mutation);
+    return;
+  }
+  mutationListeners.forEach((listener) => {
+    try {
+      listener(mutation);
+    } catch (error) {
+      console.error("Product mutation listener failed:", error);
+    }
+  });
+}
+
+// Sorted indexes and the live summary go stale on any change; drop them
+// before anyone re-queries
+onProductMutation(() => {
+  sortedIndexes.clear();
+  liveSummary = null;
+});
+// Every mutation lands in the audit log and is pushed to open pages; price
+// and quantity changes also extend the product's price history
+onProductMutation(recordAuditEntry);
+onProductMutation(recordPriceHistory);
+onProductMutation(broadcastMutation);
+
+function seedProducts(random: () => number): ProductWithCurrency[] {
+  const catalog: readonly { name: string; category: string }[] = [
+    { name: "Aurora Headphones", category: "Audio" },
+    { name: "Lumen Desk Lamp", category: "Lighting" },
+    { name: "Nimbus Router", category: "Networking" },
+    { name: "Solace Monitor", category: "Displays" },
+    { name: "Pulse Keyboard", category: "Peripherals" },
+    { name: "Echo Speakers", category: "Audio" },
+    { name: "Quanta Mouse", category: "Peripherals" },
+    { name: "Zenith Webcam", category: "Peripherals" },
+    { name: "Vertex Laptop Stand", category: "Accessories" },
+    { name: "Nova USB Hub", category: "Accessories" },
   ] as const;
 
   const products: ProductWithCurrency[] = [];
 
   for (let i = 1; i <= 50; i++) {
-    const basePrice: number = +(50 + Math.random() * 950).toFixed(2);
-    const quantity: number = Math.floor(1 + Math.random() * 20);
-    const name: string = names[i % names.length] + " #" + i;
+    const basePrice: number = +(50 + random() * 950).toFixed(2);
+    // Some stock is bought and sold in euros or pounds
+    const currency = i % 5 === 0 ? "EUR" : i % 5 === 3 ? "GBP" : "USD";
+    const quantity: number = Math.floor(1 + random() * 20);
+    const entry = catalog[i % catalog.length];
+    const name: string = entry.name + " #" + i;
 
     const product: ProductWithCurrency = {
       id: i,
       name,
-      price: basePrice,
+      price: fromMajor(basePrice, currency),
       quantity,
-      category: "Electronics",
+      category: entry.category,
+      version: 1,
     };
+    // A few fast movers reorder earlier than their category does
+    if (i % 7 === 0) product.reorderThreshold = 10;
 
     products.push(product);
   }
   return products;
 }
 
-let db: ProductWithCurrency[] = seedProducts();
+const repository = createProductRepository(PERSISTENCE);
+
+// Persistent stores are only seeded on first run
+if (repository.count() === 0) {
+  const random =
+    PERSISTENCE.SEED !== undefined ? createRandom(PERSISTENCE.SEED) : Math.random;
+  seedProducts(random).forEach((product) => repository.insert(product));
+}
+
+// A product's ledger balance is its quantity. Products stored before they had
+// a ledger open one with their stock on hand; a stored quantity that missed a
+// movement (say the server stopped in between) is brought back in line.
+repository.list().forEach((product) => {
+  const balance = getStockBalance(product.id);
+  if (balance === undefined) {
+    openLedger(product.id, product.quantity, null, null);
+  } else if (balance !== product.quantity) {
+    repository.update({ ...product, quantity: balance });
+  }
+});
+
+/**
+ * Removes products deleted longer than TOMBSTONES.RETENTION_MS ago, well past
+ * the point they could be restored, so they stop weighing on every scan. The
+ * product with the highest id is always kept, as ids come from the highest
+ * one stored and a reused id would inherit the old product's ledger and logs.
+ */
+function purgeTombstones(now: number = Date.now()): void {
+  const highestId = repository.nextId() - 1;
+  const cutoff = now - TOMBSTONES.RETENTION_MS;
+  repository
+    .list()
+    .filter((p) => p.deletedAt && p.deletedAt.getTime() < cutoff && p.id !== highestId)
+    .forEach((p) => repository.remove(p.id));
+}
+
+purgeTombstones();
+
+/**
+ * Runs `fn` as one storage transaction: every product write and stock
+ * movement it makes is kept, or if it throws, none is. Listeners hear about
+ * the changes only once they are committed.
+ */
+export function runInTransaction<T>(fn: () => T): T {
+  if (pendingMutations) return fn();
+
+  pendingMutations = [];
+  try {
+    const result = repository.transaction(fn);
+    const committed = pendingMutations;
+    pendingMutations = null;
+    committed.forEach(notifyMutation);
+    return result;
+  } catch (error) {
+    pendingMutations = null;
+    // The caches and ledgers may hold changes that were just rolled back
+    sortedIndexes.clear();
+    liveSummary = null;
+    reloadStockLedgers();
+    throw error;
+  }
+}
 
 export interface GetProductsParams {
   page: number;
   pageSize: number;
-  sort?: keyof Product | "subtotal";
-  sortDir?: "asc" | "desc";
-  searchField?: keyof Product;
+  // Applied in order; ties are always broken by ascending id
+  sortKeys?: SortKey[];
+  searchField?: SearchField;
   searchTerm?: string;
+  filters?: ProductFilters;
 }
 
 export interface GetProductsResult {
   data: ProductWithCurrency[];
   total: number;
+  // Every matching row, not just this page
+  totals: ProductTotals;
+  // Match counts per category for the search and every filter except the
+  // category selection itself, so unselected categories show what adding
+  // them would bring in. Categories with no matches have a zero count.
+  facets: CategoryFacet[];
 }
 
-export function getProducts(params: GetProductsParams): GetProductsResult {
+export type ProductQuery = Omit<GetProductsParams, "page" | "pageSize">;
+
+// Deleted products stay in the repository as tombstones so they can be restored
+function listLiveProducts(): ProductWithCurrency[] {
+  return repository.list().filter((p) => !p.deletedAt);
+}
+
+function findLiveProduct(id: number): ProductWithCurrency | undefined {
+  const product = repository.findById(id);
+  return product && !product.deletedAt ? product : undefined;
+}
+
+function containsText(value: string | undefined, term: string): boolean {
+  return (value ?? "").toLowerCase().includes(term.toLowerCase());
+}
+
+function matchesFilters(p: Product, filters: ProductFilters): boolean {
   const {
-    page,
-    pageSize,
-    sort = "id",
-    sortDir = "asc",
-    searchField,
-    searchTerm,
-  } = params;
-  let rows = [...db];
-  if (searchField && searchTerm) {
-    rows = rows.filter((p) =>
-      p.name.toLowerCase().includes(searchTerm.toLowerCase()),
-    );
+    nameContains,
+    categoryContains,
+    descriptionContains,
+    minPrice,
+    maxPrice,
+    minQuantity,
+    maxQuantity,
+    categories,
+    lowStock,
+  } = filters;
+
+  if (nameContains && !containsText(p.name, nameContains)) return false;
+  if (categoryContains && !containsText(p.category, categoryContains)) return false;
+  if (descriptionContains && !containsText(p.description, descriptionContains)) return false;
+  // Price bounds are in the base currency, like every cross-product comparison
+  if (minPrice !== undefined && toMajor(getBasePrice(p)) < minPrice) return false;
+  if (maxPrice !== undefined && toMajor(getBasePrice(p)) > maxPrice) return false;
+  if (minQuantity !== undefined && p.quantity < minQuantity) return false;
+  if (maxQuantity !== undefined && p.quantity > maxQuantity) return false;
+  if (categories?.length && !categories.includes(p.category)) return false;
+  if (lowStock && !isLowStock(p)) return false;
+  return true;
+}
+
+function sortValue(p: Product, field: SortKey["field"]): string | number {
+  if (field === "price") return getBasePrice(p).minor;
+  return field === "subtotal" ? getBaseSubtotal(p).minor : p[field];
+}
+
+function compareByKey(a: Product, b: Product, key: SortKey): number {
+  const aVal = sortValue(a, key.field);
+  const bVal = sortValue(b, key.field);
+  const direction = key.order === "asc" ? 1 : -1;
+
+  if (aVal < bVal) return -direction;
+  if (aVal > bVal) return direction;
+  return 0;
+}
+
+// Live rows pre-sorted per sort, keyed by e.g. "price:desc,name:asc". Any
+// mutation can move rows, so the whole cache is dropped and rebuilt lazily.
+const sortedIndexes = new Map<string, ProductWithCurrency[]>();
+
+function compareRows(
+  a: ProductWithCurrency,
+  b: ProductWithCurrency,
+  sortKeys: SortKey[],
+): number {
+  for (const key of sortKeys) {
+    const result = compareByKey(a, b, key);
+    if (result !== 0) return result;
   }
-  rows.sort((a, b) => {
-    let aVal: string | number | Date | undefined;
-    let bVal: string | number | Date | undefined;
+  return a.id - b.id;
+}
 
-    if (sort && sort === "subtotal") {
-      aVal = a.price * a.quantity;
-      bVal = b.price * b.quantity;
-    } else {
-      aVal = a[sort as keyof Product];
-      bVal = b[sort as keyof Product];
-    }
+// Shared by every caller; never mutate the returned array
+function getSortedIndex(sortKeys: SortKey[]): readonly ProductWithCurrency[] {
+  const signature = sortKeys.map((key) => `${key.field}:${key.order}`).join(",");
+  let index = sortedIndexes.get(signature);
+  if (!index) {
+    index = listLiveProducts().sort((a, b) => compareRows(a, b, sortKeys));
+    sortedIndexes.set(signature, index);
+  }
+  return index;
+}
 
-    // Handle undefined values by treating them as less than defined values
-    if (aVal === undefined && bVal === undefined) return 0;
-    if (aVal === undefined) return sortDir === "asc" ? -1 : 1;
-    if (bVal === undefined) return sortDir === "asc" ? 1 : -1;
+// Rows that may match, in sort order. When the repository can narrow the
+// filters in storage only those rows are sorted; otherwise every live row
+// comes from the sorted index.
+function candidateRows(
+  sortKeys: SortKey[],
+  filters: ProductFilters,
+): readonly ProductWithCurrency[] {
+  const narrowed = repository.search?.(filters);
+  if (!narrowed) return getSortedIndex(sortKeys);
+  return narrowed.sort((a, b) => compareRows(a, b, sortKeys));
+}
 
-    if (aVal < bVal) return sortDir === "asc" ? -1 : 1;
-    if (aVal > bVal) return sortDir === "asc" ? 1 : -1;
-    return 0;
-  });
+interface ProductScan {
+  // Matching rows in sort order
+  rows: ProductWithCurrency[];
+  totals: ProductTotals;
+  facets: CategoryFacet[];
+}
+
+/**
+ * Filters the candidate rows in a single pass, summing the matches' totals
+ * and counting category facets on the way. searchTerm is parsed with the
+ * query language; invalid queries throw QuerySyntaxError.
+ */
+function scanProducts(params: ProductQuery): ProductScan {
+  const { searchField = "name", searchTerm, sortKeys = [], filters = {} } = params;
+  // Facets ignore the category selection, so it is checked last
+  const { categories, ...facetFilters } = filters;
+  const query = searchTerm ? parseQuery(searchTerm) : null;
+  const counts = new Map<string, number>(getCategories().map((c) => [c, 0]));
+  const totals = createTotalsAccumulator();
+  const rows: ProductWithCurrency[] = [];
+  for (const p of candidateRows(sortKeys, facetFilters)) {
+    if (query && !evaluateQuery(query, p, searchField)) continue;
+    if (!matchesFilters(p, facetFilters)) continue;
+    counts.set(p.category, (counts.get(p.category) ?? 0) + 1);
+    if (categories?.length && !categories.includes(p.category)) continue;
+    rows.push(p);
+    totals.add(p);
+  }
+  return {
+    rows,
+    totals: totals.result(),
+    facets: [...counts].map(([category, count]) => ({ category, count })),
+  };
+}
+
+function queryProducts(params: ProductQuery): ProductWithCurrency[] {
+  return scanProducts(params).rows;
+}
+
+export function getProducts(params: GetProductsParams): GetProductsResult {
+  const { page, pageSize } = params;
+  const { rows, totals, facets } = scanProducts(params);
   const total = rows.length;
   const start = (page - 1) * pageSize;
   const data = rows.slice(start, start + pageSize);
-  return { data, total };
+  return { data, total, totals, facets };
 }
 
-export function getTotals(rows: ProductWithCurrency[]): ProductTotals {
-  const totalQuantity: number = rows.reduce((sum, p) => sum + p.quantity, 0);
-  const grandTotal: number = rows.reduce(
-    (sum, p) => sum + p.quantity * p.price,
-    0,
-  );
-  const totalPrice: number = rows.reduce((sum, p) => sum + p.price, 0);
-  const averagePrice: number = rows.length > 0 ? totalPrice / rows.length : 0;
+export interface GetProductsByCursorParams extends ProductQuery {
+  pageSize: number;
+  // Rows strictly after this one; the first page when neither cursor is set
+  after?: ProductCursor | null;
+  // Rows strictly before this one, for paging backwards
+  before?: ProductCursor | null;
+  // Every row up to and including this one, but never less than a page
+  through?: ProductCursor | null;
+  // Page-by-page views get the last full page for an `after` cursor past
+  // the end; otherwise it gives no rows, as there is nothing left to append
+  fillLastPage?: boolean;
+}
+
+export interface GetProductsByCursorResult extends GetProductsResult {
+  // Boundary rows of this page; null when nothing lies beyond them
+  nextCursor: ProductCursor | null;
+  prevCursor: ProductCursor | null;
+  // Last row of this page whether or not more follow; null when empty
+  lastCursor: ProductCursor | null;
+  // Matching rows ahead of this page
+  offset: number;
+}
+
+function toCursor(p: Product, sortKeys: SortKey[]): ProductCursor {
+  return { values: sortKeys.map((key) => sortValue(p, key.field)), id: p.id };
+}
+
+// Where a row sits relative to a cursor, in the same order as compareRows
+function compareToCursor(
+  p: Product,
+  cursor: ProductCursor,
+  sortKeys: SortKey[],
+): number {
+  for (let i = 0; i < sortKeys.length; i++) {
+    const value = sortValue(p, sortKeys[i].field);
+    const direction = sortKeys[i].order === "asc" ? 1 : -1;
+    if (value < cursor.values[i]) return -direction;
+    if (value > cursor.values[i]) return direction;
+  }
+  return p.id - cursor.id;
+}
+
+// Index of the first row that sorts after the cursor
+function findAfter(
+  rows: readonly ProductWithCurrency[],
+  cursor: ProductCursor,
+  sortKeys: SortKey[],
+): number {
+  let low = 0;
+  let high = rows.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (compareToCursor(rows[mid], cursor, sortKeys) <= 0) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
 
+/**
+ * Keyset paging: finds the page by binary search on the cursor's sort values
+ * rather than an offset, so rows deleted or added earlier in the list don't
+ * shift later pages. The cursor's row need not still exist.
+ */
+export function getProductsByCursor(
+  params: GetProductsByCursorParams,
+): GetProductsByCursorResult {
+  const { pageSize, after, before, through, fillLastPage, sortKeys = [] } = params;
+  const { rows, totals, facets } = scanProducts(params);
+
+  let start = 0;
+  let end = Math.min(rows.length, pageSize);
+  if (after) {
+    start = findAfter(rows, after, sortKeys);
+    end = Math.min(rows.length, start + pageSize);
+  } else if (before) {
+    // Rows up to and including the cursor's row sort at or before it
+    end = findAfter(rows, before, sortKeys);
+    if (end > 0 && compareToCursor(rows[end - 1], before, sortKeys) === 0) end--;
+    start = Math.max(0, end - pageSize);
+  } else if (through) {
+    end = Math.max(end, findAfter(rows, through, sortKeys));
+  }
+  // Past either end, e.g. every row beyond the cursor was deleted: show the
+  // nearest full page rather than an empty one
+  if (start === end && rows.length > 0 && (!after || fillLastPage)) {
+    start = after ? Math.max(0, rows.length - pageSize) : 0;
+    end = after ? rows.length : Math.min(rows.length, pageSize);
+  }
+
+  const data = rows.slice(start, end);
+  const lastCursor =
+    data.length > 0 ? toCursor(data[data.length - 1], sortKeys) : null;
   return {
-    totalPrice: +totalPrice.toFixed(2),
-    totalQuantity,
-    grandTotal: +grandTotal.toFixed(2),
-    averagePrice: +averagePrice.toFixed(2),
-    productCount: rows.length,
+    data,
+    total: rows.length,
+    totals,
+    facets,
+    nextCursor: end < rows.length ? lastCursor : null,
+    prevCursor: start > 0 && data.length > 0 ? toCursor(data[0], sortKeys) : null,
+    lastCursor,
+    offset: start,
   };
 }
 
+// Every row matching the search, in sort order, without paging
+export function getMatchingProducts(params: ProductQuery): ProductWithCurrency[] {
+  return queryProducts(params);
+}
+
+/**
+ * Returns the 1-based page a product lands on for the given sort/search,
+ * or null when the product is filtered out of the current view.
+ */
+export function getProductPage(
+  id: number,
+  params: GetProductsParams,
+): number | null {
+  const index = queryProducts(params).findIndex((p) => p.id === id);
+  if (index === -1) return null;
+  return Math.floor(index / params.pageSize) + 1;
+}
+
+// Totals added up one row at a time, so they can be gathered while filtering
+function createTotalsAccumulator() {
+  let totalQuantity = 0;
+  // Exact integer sums; only the average is rounded
+  let totalPrice = zeroMoney();
+  let grandTotal = zeroMoney();
+  let productCount = 0;
+  let lowStockCount = 0;
+  const byCategory = new Map<string, CategoryTotals>();
+
+  return {
+    add(p: ProductWithCurrency): void {
+      const subtotal = getBaseSubtotal(p);
+      totalQuantity += p.quantity;
+      totalPrice = addMoney(totalPrice, getBasePrice(p));
+      grandTotal = addMoney(grandTotal, subtotal);
+      productCount++;
+      if (isLowStock(p)) lowStockCount++;
+
+      const entry = byCategory.get(p.category) ?? {
+        category: p.category,
+        productCount: 0,
+        totalQuantity: 0,
+        grandTotal: zeroMoney(),
+      };
+      entry.productCount++;
+      entry.totalQuantity += p.quantity;
+      entry.grandTotal = addMoney(entry.grandTotal, subtotal);
+      byCategory.set(p.category, entry);
+    },
+    result(): ProductTotals {
+      return {
+        totalPrice,
+        totalQuantity,
+        grandTotal,
+        averagePrice:
+          productCount > 0 ? multiplyMoney(totalPrice, 1 / productCount) : zeroMoney(),
+        productCount,
+        lowStockCount,
+        byCategory: [...byCategory.values()].sort((a, b) =>
+          a.category.localeCompare(b.category),
+        ),
+      };
+    },
+  };
+}
+
+export function getTotals(rows: readonly ProductWithCurrency[]): ProductTotals {
+  const totals = createTotalsAccumulator();
+  rows.forEach((p) => totals.add(p));
+  return totals.result();
+}
+
+// Totals and categories of the whole inventory, built on first use and
+// dropped with the sorted indexes
+interface LiveSummary {
+  totals: ProductTotals;
+  categories: string[];
+}
+
+let liveSummary: LiveSummary | null = null;
+
+function getLiveSummary(): LiveSummary {
+  if (!liveSummary) {
+    const totals = getTotals(listLiveProducts());
+    liveSummary = {
+      totals,
+      // byCategory is already sorted by name
+      categories: totals.byCategory.map((entry) => entry.category),
+    };
+  }
+  return liveSummary;
+}
+
+// Every category in the inventory, alphabetically
+export function getCategories(): string[] {
+  return getLiveSummary().categories;
+}
+
 export function getAllTotals(): ProductTotals {
-  return getTotals(db);
+  return getLiveSummary().totals;
 }
 
 export function getProductById(id: number): ProductWithCurrency | undefined {
-  return db.find((p) => p.id === id);
+  return findLiveProduct(id);
+}
+
+// The live product `context` expects to update; throws if it is gone or stale
+function findProductForUpdate(
+  id: number,
+  context: UpdateContext,
+): ProductWithCurrency {
+  const existing = findLiveProduct(id);
+  if (!existing) {
+    throw new Error(`Product with id ${id} not found`);
+  }
+
+  if (
+    context.expectedVersion !== undefined &&
+    context.expectedVersion !== existing.version
+  ) {
+    throw new VersionConflictError(existing);
+  }
+  return existing;
 }
 
+/**
+ * Sets a price, or records a quantity as an "adjust" movement for the
+ * difference from the current stock. A price keeps the product's currency.
+ * Throws ProductValidationError if the product schema rejects the result.
+ */
 export function updateProductField(
   id: number,
-  field: "price" | "quantity",
+  field: "price",
+  value: Money,
+  context?: UpdateContext,
+): ProductWithCurrency;
+export function updateProductField(
+  id: number,
+  field: "quantity",
   value: number,
+  context?: UpdateContext,
+): ProductWithCurrency;
+export function updateProductField(
+  id: number,
+  field: "price" | "quantity",
+  value: Money | number,
+  context: UpdateContext = {},
 ): ProductWithCurrency {
-  const product = db.find((p) => p.id === id);
-  if (!product) {
-    throw new Error(`Product with id ${id} not found`);
+  const existing = findProductForUpdate(id, context);
+
+  if (field === "quantity") {
+    const quantity = value as number;
+    assertValidProduct({ ...existing, quantity });
+    const current = getStockBalance(id) ?? existing.quantity;
+    return applyStockMovement(existing, quantity - current, "adjust", context);
   }
 
-  if (field === "price") {
-    if (value < VALIDATION_RULES.MIN_PRICE || value > VALIDATION_RULES.MAX_PRICE) {
-      throw new Error(`Price must be between ${VALIDATION_RULES.MIN_PRICE} and ${VALIDATION_RULES.MAX_PRICE}`);
-    }
-    product.price = value;
-  } else if (field === "quantity") {
-    if (value < VALIDATION_RULES.MIN_QUANTITY || value > VALIDATION_RULES.MAX_QUANTITY) {
-      throw new Error(`Quantity must be between ${VALIDATION_RULES.MIN_QUANTITY} and ${VALIDATION_RULES.MAX_QUANTITY}`);
-    }
-    product.quantity = Math.max(0, Math.floor(value));
+  const price = value as Money;
+  if (price.currency !== existing.price.currency) {
+    throw new ProductValidationError("price", `must stay in ${existing.price.currency}`);
   }
+  assertValidProduct({ ...existing, price });
+  const product: ProductWithCurrency = {
+    ...existing,
+    price,
+    version: existing.version + 1,
+    updatedAt: new Date(),
+  };
 
   // Validate the product structure after modification
   if (!isValidProduct(product)) {
     throw new Error("Product validation failed after update");
   }
 
+  repository.update(product);
+  notifyMutation({
+    type: "updated",
+    product,
+    previous: existing,
+    field: "price",
+    actor: context.actor ?? null,
+  });
   return product;
 }
 
-export function deleteProduct(id: number): void {
-  const index = db.findIndex((p) => p.id === id);
-  if (index === -1) {
+// The product's quantity is a copy of its ledger balance, written only here
+function applyStockMovement(
+  existing: ProductWithCurrency,
+  delta: number,
+  reason: RecordableReason,
+  context: UpdateContext,
+): ProductWithCurrency {
+  const movement = recordMovement(existing.id, delta, reason, context.actor ?? null);
+  const product: ProductWithCurrency = {
+    ...existing,
+    quantity: movement.balance,
+    version: existing.version + 1,
+    updatedAt: new Date(),
+  };
+
+  repository.update(product);
+  notifyMutation({
+    type: "updated",
+    product,
+    previous: existing,
+    field: "quantity",
+    actor: context.actor ?? null,
+  });
+  return product;
+}
+
+/**
+ * Records a signed stock movement (a receipt, sale, return or adjustment)
+ * and updates the product's quantity to the new balance. Throws
+ * StockMovementError if the stock would leave the allowed range.
+ */
+export function recordStockMovement(
+  id: number,
+  delta: number,
+  reason: RecordableReason,
+  context: UpdateContext = {},
+): ProductWithCurrency {
+  return applyStockMovement(findProductForUpdate(id, context), delta, reason, context);
+}
+
+export function updateProductCategory(
+  id: number,
+  category: string,
+  context: UpdateContext = {},
+): ProductWithCurrency {
+  const existing = findProductForUpdate(id, context);
+  const trimmed = category.trim();
+  assertValidField("category", trimmed);
+
+  const product: ProductWithCurrency = {
+    ...existing,
+    category: trimmed,
+    version: existing.version + 1,
+    updatedAt: new Date(),
+  };
+
+  repository.update(product);
+  notifyMutation({
+    type: "updated",
+    product,
+    previous: existing,
+    field: "category",
+    actor: context.actor ?? null,
+  });
+  return product;
+}
+
+/**
+ * Sets the stock level below which the product counts as low, or with
+ * undefined clears it so the category's or default threshold applies again.
+ */
+export function updateReorderThreshold(
+  id: number,
+  reorderThreshold: number | undefined,
+  context: UpdateContext = {},
+): ProductWithCurrency {
+  const existing = findProductForUpdate(id, context);
+  assertValidField("reorderThreshold", reorderThreshold);
+
+  const product: ProductWithCurrency = {
+    ...existing,
+    reorderThreshold,
+    version: existing.version + 1,
+    updatedAt: new Date(),
+  };
+
+  repository.update(product);
+  notifyMutation({
+    type: "updated",
+    product,
+    previous: existing,
+    field: "reorderThreshold",
+    actor: context.actor ?? null,
+  });
+  return product;
+}
+
+export function createProduct(
+  input: ProductInput,
+  context: MutationContext = {},
+): ProductWithCurrency {
+  const fields = {
+    ...input,
+    name: input.name.trim(),
+    category: input.category.trim(),
+  };
+  assertValidProduct(fields);
+
+  const product: ProductWithCurrency = {
+    ...fields,
+    id: repository.nextId(),
+    version: 1,
+    createdAt: new Date(),
+  };
+
+  if (!isValidProduct(product)) {
+    throw new Error("Product validation failed on create");
+  }
+
+  repository.insert(product);
+  openLedger(product.id, product.quantity, context.actor ?? null);
+  notifyMutation({ type: "created", product, actor: context.actor ?? null });
+  return product;
+}
+
+/**
+ * Soft-deletes a product by tombstoning it; restoreProduct brings it back.
+ */
+export function deleteProduct(
+  id: number,
+  context: MutationContext = {},
+): ProductWithCurrency {
+  const existing = findLiveProduct(id);
+  if (!existing) {
     throw new Error(`Product with id ${id} not found`);
   }
-  db.splice(index, 1);
+
+  const now = new Date();
+  const product: ProductWithCurrency = {
+    ...existing,
+    version: existing.version + 1,
+    updatedAt: now,
+    deletedAt: now,
+  };
+  repository.update(product);
+  notifyMutation({ type: "deleted", product, actor: context.actor ?? null });
+  purgeTombstones(now.getTime());
+  return product;
+}
+
+export function restoreProduct(
+  id: number,
+  context: UpdateContext = {},
+): ProductWithCurrency {
+  const existing = repository.findById(id);
+  if (!existing || !existing.deletedAt) {
+    throw new Error(`Deleted product with id ${id} not found`);
+  }
+  if (
+    context.expectedVersion !== undefined &&
+    context.expectedVersion !== existing.version
+  ) {
+    throw new VersionConflictError(existing);
+  }
+
+  const { deletedAt: _deletedAt, ...rest } = existing;
+  const product: ProductWithCurrency = {
+    ...rest,
+    version: existing.version + 1,
+    updatedAt: new Date(),
+  };
+  repository.update(product);
+  notifyMutation({ type: "restored", product, actor: context.actor ?? null });
+  return product;
 }
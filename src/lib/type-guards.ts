@@ -1,7 +1,18 @@
 // Type guards and validation utilities
-import type { Product, SortOrder } from '../types';
-
-// Type predicate for Product validation
+import type {
+  CurrencyCode,
+  Money,
+  Product,
+  SearchField,
+  SortField,
+  SortOrder,
+  TableView,
+} from '../types';
+import type { JWTPayload } from './jwt';
+import { CURRENCY } from './config';
+
+// Type predicate for the shape of a Product; the values' own rules are in
+// product-schema.ts
 export function isValidProduct(obj: unknown): obj is Product {
   if (!obj || typeof obj !== 'object') return false;
 
@@ -10,11 +21,27 @@ export function isValidProduct(obj: unknown): obj is Product {
   return (
     typeof product.id === 'number' &&
     typeof product.name === 'string' &&
-    typeof product.price === 'number' &&
+    isMoney(product.price) &&
     typeof product.quantity === 'number' &&
     typeof product.category === 'string' &&
-    product.price >= 0 &&
-    product.quantity >= 0
+    typeof product.version === 'number' &&
+    (product.reorderThreshold === undefined || typeof product.reorderThreshold === 'number')
+  );
+}
+
+// Type predicate for the claims our JWTs must carry
+export function isJWTPayload(obj: unknown): obj is JWTPayload {
+  if (!obj || typeof obj !== 'object') return false;
+
+  const payload = obj as Record<string, unknown>;
+
+  return (
+    typeof payload.userId === 'number' &&
+    typeof payload.email === 'string' &&
+    typeof payload.username === 'string' &&
+    (payload.role === 'admin' || payload.role === 'user') &&
+    typeof payload.exp === 'number' &&
+    typeof payload.iat === 'number'
   );
 }
 
@@ -23,12 +50,38 @@ export function isValidSortOrder(value: unknown): value is SortOrder {
   return value === 'asc' || value === 'desc';
 }
 
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && Object.hasOwn(CURRENCY.RATES, value);
+}
+
+// Whole minor units in a supported currency
+export function isMoney(value: unknown): value is Money {
+  if (!value || typeof value !== 'object') return false;
+  const amount = value as Record<string, unknown>;
+  return Number.isSafeInteger(amount.minor) && isCurrencyCode(amount.currency);
+}
+
+export function isTableView(value: unknown): value is TableView {
+  return value === 'pages' || value === 'scroll';
+}
+
 // Type predicate for Product field names
 export function isProductField(field: unknown): field is keyof Product {
   const validFields: (keyof Product)[] = ['id', 'name', 'price', 'quantity', 'category', 'description'];
   return typeof field === 'string' && validFields.includes(field as keyof Product);
 }
 
+// Type predicate for the columns the table can sort by
+export function isSortField(field: unknown): field is SortField {
+  const sortFields: SortField[] = ['id', 'name', 'category', 'price', 'quantity', 'subtotal'];
+  return typeof field === 'string' && sortFields.includes(field as SortField);
+}
+
+// Type predicate for the text fields searchTerm can target
+export function isSearchField(field: unknown): field is SearchField {
+  return field === 'name' || field === 'category' || field === 'description';
+}
+
 // Safe type assertion with validation
 export function assertProduct(obj: unknown): Product {
   if (!isValidProduct(obj)) {
@@ -0,0 +1,82 @@
+// Server-side undo stack for deletes and inline edits
+import crypto from "node:crypto";
+import { UNDO } from "./config";
+import type { JWTPayload } from "./jwt";
+import type { Money, Product } from "../types";
+
+export type UndoAction =
+  | { kind: "delete" }
+  | { kind: "update"; field: "price"; previousValue: Money }
+  | { kind: "update"; field: "quantity"; previousValue: number }
+  | { kind: "update"; field: "category"; previousValue: string };
+
+export interface UndoEntry {
+  token: string;
+  productId: number;
+  productName: string;
+  action: UndoAction;
+  // The product's version right after the change; undoing is refused once
+  // anything else has changed it since
+  version: number;
+  userId: number | null;
+  createdAt: number;
+}
+
+// Newest last; bounded so abandoned entries don't accumulate
+const stack: UndoEntry[] = [];
+
+function isExpired(entry: UndoEntry, now: number): boolean {
+  return now - entry.createdAt > UNDO.WINDOW_MS;
+}
+
+function prune(now: number): void {
+  while (stack.length > 0 && isExpired(stack[0], now)) {
+    stack.shift();
+  }
+  if (stack.length > UNDO.MAX_ENTRIES) {
+    stack.splice(0, stack.length - UNDO.MAX_ENTRIES);
+  }
+}
+
+// `product` is the product as the change left it
+export function pushUndo(
+  product: Pick<Product, "id" | "name" | "version">,
+  action: UndoAction,
+  actor: JWTPayload | null,
+): UndoEntry {
+  const now = Date.now();
+  const entry: UndoEntry = {
+    token: crypto.randomUUID(),
+    productId: product.id,
+    productName: product.name,
+    action,
+    version: product.version,
+    userId: actor?.userId ?? null,
+    createdAt: now,
+  };
+  stack.push(entry);
+  prune(now);
+  return entry;
+}
+
+/**
+ * Removes and returns the entry for `token` if it is still within the undo
+ * window and belongs to the same user and product; otherwise undefined.
+ */
+export function takeUndo(
+  token: string,
+  productId: number,
+  actor: JWTPayload | null,
+): UndoEntry | undefined {
+  prune(Date.now());
+  const index = stack.findIndex((entry) => entry.token === token);
+  if (index === -1) return undefined;
+
+  const entry = stack[index];
+  if (entry.productId !== productId || entry.userId !== (actor?.userId ?? null)) {
+    return undefined;
+  }
+
+  stack.splice(index, 1);
+  return entry;
+}
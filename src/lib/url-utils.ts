@@ -1,10 +1,26 @@
+import {
+  DEFAULT_PAGE,
+  DEFAULT_PAGE_SIZE,
+  DEFAULT_SORT_BY,
+  DEFAULT_SORT_ORDER,
+  DEFAULT_SEARCH_FIELD,
+  TEXT_FILTER_PARAMS,
+  RANGE_FILTER_PARAMS,
+  CATEGORY_FILTER_PARAM,
+  LOW_STOCK_FILTER_PARAM,
+  CURSOR_PARAMS,
+} from './constants';
+import { isSortField, isValidSortOrder } from './type-guards';
+import type { CursorParams, ProductFilters, SortKey } from '../types';
+
 export interface UrlParams {
   page?: number;
   limit?: number;
   sortBy?: string;
   sortOrder?: string;
   searchTerm?: string;
-  [key: string]: string | number | undefined;
+  // undefined leaves a param alone; null removes it (buildUrl only)
+  [key: string]: string | number | null | undefined;
 }
 
 export function buildUrl(params: UrlParams): string {
@@ -16,7 +32,9 @@ export function buildUrl(params: UrlParams): string {
   const url = new URL(baseUrl);
 
   Object.entries(params).forEach(([key, value]) => {
-    if (value !== undefined && value !== null) {
+    if (value === null) {
+      url.searchParams.delete(key);
+    } else if (value !== undefined) {
       url.searchParams.set(key, String(value));
     }
   });
@@ -36,17 +54,157 @@ export function buildUrlFromBase(basePath: string, params: UrlParams): string {
   return url.pathname + url.search;
 }
 
-export function buildDeleteUrl(productId: number, params: UrlParams): string {
+export interface TableState {
+  page: number;
+  pageSize: number;
+  sort: string;
+  sortDir: string;
+  searchTerm: string;
+  searchField?: string;
+  filters?: ProductFilters;
+  // Only set in cursor mode, where it replaces `page`
+  cursor?: CursorParams;
+}
+
+// Table state as URL params, leaving out anything that matches the defaults.
+// An empty cursor is kept: ?after= is how cursor mode starts.
+export function buildTableStateParams(state: TableState): UrlParams {
+  const { categories, lowStock, ...filters } = state.filters ?? {};
+  return {
+    page: state.page !== DEFAULT_PAGE ? state.page : undefined,
+    limit: state.pageSize !== DEFAULT_PAGE_SIZE ? state.pageSize : undefined,
+    sortBy: state.sort !== DEFAULT_SORT_BY ? state.sort : undefined,
+    sortOrder: state.sortDir !== DEFAULT_SORT_ORDER ? state.sortDir : undefined,
+    searchTerm: state.searchTerm || undefined,
+    searchField:
+      state.searchField && state.searchField !== DEFAULT_SEARCH_FIELD
+        ? state.searchField
+        : undefined,
+    ...filters,
+    [CATEGORY_FILTER_PARAM]: categories?.length ? categories.join(',') : undefined,
+    [LOW_STOCK_FILTER_PARAM]: lowStock ? 1 : undefined,
+    after: state.cursor?.after,
+    before: state.cursor?.before,
+    through: state.cursor?.through,
+  };
+}
+
+// Changing the sort, filters or page size starts over from the first page,
+// which in cursor mode is an empty ?after=
+export function restartCursor(cursor?: CursorParams): CursorParams | undefined {
+  return cursor && { after: '' };
+}
+
+// The cursor param present in a query string; if there are several, the
+// first in CURSOR_PARAMS order wins
+export function parseCursorParams(
+  searchParams: URLSearchParams
+): CursorParams | undefined {
+  const key = CURSOR_PARAMS.find((name) => searchParams.has(name));
+  return key && { [key]: searchParams.get(key) ?? '' };
+}
+
+/**
+ * Sort keys from comma-separated sortBy/sortOrder params, e.g.
+ * sortBy=category,price&sortOrder=asc,desc. Unknown fields and repeats are
+ * dropped; a missing or invalid order means ascending.
+ */
+export function parseSortParams(
+  sortBy: string | null,
+  sortOrder: string | null
+): SortKey[] {
+  const orders = (sortOrder || '').split(',').map((order) => order.trim());
+  const keys: SortKey[] = [];
+
+  (sortBy || '').split(',').forEach((raw, index) => {
+    const field = raw.trim();
+    if (!isSortField(field) || keys.some((key) => key.field === field)) return;
+    const order = orders[index];
+    keys.push({ field, order: isValidSortOrder(order) ? order : 'asc' });
+  });
+
+  return keys.length > 0
+    ? keys
+    : [{ field: DEFAULT_SORT_BY, order: DEFAULT_SORT_ORDER }];
+}
+
+export function formatSortParams(keys: SortKey[]): {
+  sortBy: string;
+  sortOrder: string;
+} {
+  return {
+    sortBy: keys.map((key) => key.field).join(','),
+    sortOrder: keys.map((key) => key.order).join(','),
+  };
+}
+
+// Filters present in a query string; blank or non-numeric values are ignored
+export function parseFilterParams(searchParams: URLSearchParams): ProductFilters {
+  const filters: ProductFilters = {};
+
+  TEXT_FILTER_PARAMS.forEach((key) => {
+    const value = searchParams.get(key)?.trim();
+    if (value) filters[key] = value;
+  });
+
+  RANGE_FILTER_PARAMS.forEach((key) => {
+    const raw = searchParams.get(key)?.trim();
+    const value = raw ? Number(raw) : NaN;
+    if (Number.isFinite(value)) filters[key] = value;
+  });
+
+  const categories = (searchParams.get(CATEGORY_FILTER_PARAM) || '')
+    .split(',')
+    .map((category) => category.trim())
+    .filter((category, index, all) => category && all.indexOf(category) === index);
+  if (categories.length > 0) filters.categories = categories;
+
+  if (searchParams.get(LOW_STOCK_FILTER_PARAM) === '1') filters.lowStock = true;
+
+  return filters;
+}
+
+// Empty values are kept so an empty ?after= survives the round trip
+function buildApiUrl(path: string, params: UrlParams): string {
   const queryParams = new URLSearchParams();
 
   Object.entries(params).forEach(([key, value]) => {
-    if (value !== undefined && value !== null && value !== '') {
+    if (value !== undefined && value !== null) {
       queryParams.set(key, String(value));
     }
   });
 
   const queryString = queryParams.toString();
-  return `/api/products/${productId}${queryString ? '?' + queryString : ''}`;
+  return `${path}${queryString ? '?' + queryString : ''}`;
+}
+
+export function buildDeleteUrl(productId: number, params: UrlParams): string {
+  return buildApiUrl(`/api/products/${productId}`, params);
+}
+
+export function buildRestoreUrl(productId: number, params: UrlParams): string {
+  return buildApiUrl(`/api/products/${productId}/restore`, params);
+}
+
+export function buildCreateUrl(params: UrlParams): string {
+  return buildApiUrl('/api/products', params);
+}
+
+export function buildBatchUrl(params: UrlParams): string {
+  return buildApiUrl('/api/products/batch', params);
+}
+
+// Next batch of rows for the scrolling table
+export function buildRowsUrl(params: UrlParams): string {
+  return buildApiUrl('/api/products/rows', params);
+}
+
+export function buildExportUrl(
+  params: UrlParams,
+  format: 'csv' | 'json',
+  scope: 'page' | 'all'
+): string {
+  return buildApiUrl('/api/products/export', { ...params, format, scope });
 }
 
 export function getUrlParams(url: string | URL): UrlParams {
@@ -0,0 +1,74 @@
+import type { APIRoute } from "astro";
+import { LIVE_EVENTS } from "../../lib/config";
+import {
+  subscribeLiveEvents,
+  formatLiveEvent,
+  formatRefreshEvent,
+  getEventsSince,
+} from "../../lib/live-events";
+
+// Server-Sent Events stream of product changes. The payload only names the
+// product; pages fetch the fragments they need so rendering stays server-side.
+// Browsers reconnect with Last-Event-ID, and whatever was broadcast in
+// between is replayed first.
+export const GET: APIRoute = ({ request }) => {
+  const lastEventId = request.headers.get("Last-Event-ID");
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The stream closed between the abort and our cleanup
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeLiveEvents((event) =>
+        send(formatLiveEvent(event)),
+      );
+      const heartbeat = setInterval(
+        () => send(": heartbeat\n\n"),
+        LIVE_EVENTS.HEARTBEAT_MS,
+      );
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send(`retry: ${LIVE_EVENTS.RETRY_MS}\n\n`);
+      // Subscribed above, so nothing falls between the replay and new events
+      if (lastEventId !== null) {
+        const missed = getEventsSince(Number(lastEventId));
+        if (missed) {
+          missed.forEach((event) => send(formatLiveEvent(event)));
+        } else {
+          send(formatRefreshEvent());
+        }
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+};
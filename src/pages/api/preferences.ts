@@ -0,0 +1,31 @@
+import type { APIRoute } from "astro";
+import { isCurrencyCode } from "../../lib/type-guards";
+import { isSupportedLocale, saveDisplayPreferences } from "../../lib/currency";
+import { createErrorResponse } from "../../lib/api-response-utils";
+
+// Saves the display currency and locale. htmx reloads the page so every
+// amount re-renders; a plain form post is sent back to the page it came from.
+export const POST: APIRoute = async ({ request, cookies, locals, redirect, url }) => {
+  const formData = await request.formData();
+  const currency = formData.get("currency") ?? locals.display.currency;
+  const locale = formData.get("locale") ?? locals.display.locale;
+  if (!isCurrencyCode(currency) || !isSupportedLocale(locale)) {
+    return createErrorResponse(
+      `Error: unsupported currency or locale. Received: ${currency}, ${locale}`,
+      400,
+    );
+  }
+
+  saveDisplayPreferences(cookies, { currency, locale });
+
+  if (request.headers.get("HX-Request")) {
+    return new Response(null, { status: 204, headers: { "HX-Refresh": "true" } });
+  }
+  // A Referer that doesn't parse, or is from another site, goes home instead
+  const referer = request.headers.get("Referer");
+  const back =
+    referer && URL.canParse(referer) && new URL(referer).origin === url.origin
+      ? referer
+      : "/";
+  return redirect(back, 303);
+};
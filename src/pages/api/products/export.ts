@@ -0,0 +1,111 @@
+import type { APIRoute } from "astro";
+import { parseExportParams, getExportData, type ExportData } from "../../../lib/api-utils";
+import { createErrorResponse } from "../../../lib/api-response-utils";
+import { QuerySyntaxError } from "../../../lib/query-parser";
+import { CSV_EXPORT } from "../../../lib/config";
+import { toCsv, type CsvValue } from "../../../lib/csv";
+import { multiplyMoney, toMajor } from "../../../lib/money";
+import type { ProductWithCurrency } from "../../../lib/store";
+
+const CSV_HEADER: CsvValue[] = [
+  "id",
+  "name",
+  "category",
+  "price",
+  "currency",
+  "quantity",
+  "subtotal",
+  "reorder_threshold",
+];
+
+function toExportRow(product: ProductWithCurrency) {
+  return {
+    id: product.id,
+    name: product.name,
+    category: product.category,
+    price: toMajor(product.price),
+    currency: product.price.currency,
+    quantity: product.quantity,
+    subtotal: toMajor(multiplyMoney(product.price, product.quantity)),
+    // Null when the product uses its category's threshold
+    reorderThreshold: product.reorderThreshold ?? null,
+  };
+}
+
+// Downloads the current table view, or every row matching its search, with
+// the same sortBy/sortOrder/searchTerm/page/limit params the table uses
+export const GET: APIRoute = ({ request }) => {
+  const params = parseExportParams(request);
+  if (!params) {
+    return createErrorResponse(
+      "Error: format must be csv or json and scope must be page or all",
+      400,
+    );
+  }
+
+  let exportData: ExportData;
+  try {
+    exportData = getExportData(params);
+  } catch (e) {
+    if (e instanceof QuerySyntaxError) {
+      return createErrorResponse(`Error: invalid searchTerm. ${e.message}`, 400);
+    }
+    throw e;
+  }
+  const { data, totals } = exportData;
+  const rows = data.map(toExportRow);
+  const filename = `products-${new Date().toISOString().slice(0, 10)}.${params.format}`;
+  const headers = {
+    "Content-Disposition": `attachment; filename="${filename}"`,
+    "Cache-Control": "no-store",
+  };
+
+  if (params.format === "json") {
+    const body = {
+      scope: params.scope,
+      sortBy: params.sort,
+      sortOrder: params.sortDir,
+      searchTerm: params.searchTerm,
+      searchField: params.searchField,
+      filters: params.filters,
+      ...(params.scope === "page" && { page: params.page, limit: params.pageSize }),
+      products: rows,
+      totals: {
+        productCount: totals.productCount,
+        totalQuantity: totals.totalQuantity,
+        grandTotal: toMajor(totals.grandTotal),
+        currency: totals.grandTotal.currency,
+      },
+    };
+    return new Response(JSON.stringify(body, null, 2), {
+      headers: { ...headers, "Content-Type": "application/json; charset=utf-8" },
+    });
+  }
+
+  const csv = toCsv([
+    CSV_HEADER,
+    ...rows.map((row) => [
+      row.id,
+      row.name,
+      row.category,
+      row.price,
+      row.currency,
+      row.quantity,
+      row.subtotal,
+      row.reorderThreshold,
+    ]),
+    // Row subtotals are in each product's currency; the total is in the base
+    [
+      CSV_EXPORT.TOTALS_LABEL,
+      `${totals.productCount} products`,
+      "",
+      "",
+      totals.grandTotal.currency,
+      totals.totalQuantity,
+      toMajor(totals.grandTotal),
+    ],
+  ]);
+  return new Response(csv, {
+    headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+  });
+};
@@ -0,0 +1,55 @@
+import type { APIRoute } from "astro";
+import { getReorderReport } from "../../../lib/reorder-report";
+import { CSV_EXPORT } from "../../../lib/config";
+import { toMajor } from "../../../lib/money";
+import { toCsv, type CsvValue } from "../../../lib/csv";
+
+const CSV_HEADER: CsvValue[] = [
+  "id",
+  "name",
+  "category",
+  "quantity",
+  "threshold",
+  "suggested",
+  "price",
+  "currency",
+  "cost",
+];
+
+// The reorder report as a CSV download, with a totals footer like the export
+export const GET: APIRoute = () => {
+  const { lines, totalUnits, totalCost } = getReorderReport();
+  const csv = toCsv([
+    CSV_HEADER,
+    ...lines.map(({ product, threshold, suggestedQuantity, orderCost }) => [
+      product.id,
+      product.name,
+      product.category,
+      product.quantity,
+      threshold,
+      suggestedQuantity,
+      toMajor(product.price),
+      product.price.currency,
+      toMajor(orderCost),
+    ]),
+    [
+      CSV_EXPORT.TOTALS_LABEL,
+      `${lines.length} products`,
+      "",
+      "",
+      "",
+      totalUnits,
+      "",
+      totalCost.currency,
+      toMajor(totalCost),
+    ],
+  ]);
+  const filename = `reorder-${new Date().toISOString().slice(0, 10)}.csv`;
+  return new Response(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+};
@@ -1,11 +1,13 @@
 export interface FocusInfo {
   id: string;
-  field: "price" | "quantity";
+  field: "price" | "quantity" | "category";
 }
 
 export interface TableHeaderFocus {
   field: string;
   caretPos: number | null;
+  // Name of the focused input; defaults to the search box
+  input?: string;
 }
 
 export interface HtmxRequest {
@@ -29,9 +31,29 @@ export interface HtmxBeforeSwapEvent extends Event {
   detail: {
     xhr: XMLHttpRequest & { status: number };
     shouldSwap: boolean;
+    isError: boolean;
   };
 }
 
+export interface HtmxResponseErrorEvent extends Event {
+  detail: {
+    xhr: XMLHttpRequest & { status: number };
+  };
+}
+
+export interface HtmxConfirmEvent extends Event {
+  detail: {
+    elt: HTMLElement;
+    issueRequest: (skipConfirmation?: boolean) => void;
+  };
+}
+
+// Payload of product-changed / product-deleted events from /api/events
+export interface LiveEventData {
+  productId: number;
+  version: number;
+}
+
 export interface OptimisticEvent extends Event {
   target: HTMLElement | null;
 }
@@ -48,6 +70,7 @@ declare global {
       exitEditModeAfterSubmit: (input: HTMLInputElement) => void;
       restoreFocus: () => void;
       cancelOnEscape: (evt: KeyboardEvent, input: HTMLInputElement) => void;
+      // In the user's display currency and locale
       formatCurrency: (value: number) => string;
     };
     __lastFocus: FocusInfo | null;
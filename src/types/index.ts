@@ -1,14 +1,68 @@
 // Core domain types with comprehensive type safety
 
+// Currencies a price can be held in; rates live in CURRENCY in config
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP';
+
+// An amount as integer minor units (cents, pence) of its currency, so sums
+// are exact; helpers live in src/lib/money.ts
+export interface Money {
+  minor: number;
+  currency: CurrencyCode;
+}
+
+// How money is shown to the current user
+export interface DisplayPreferences {
+  currency: CurrencyCode;
+  // BCP 47 tag used for number formatting and for parsing typed prices
+  locale: string;
+}
+
 export interface Product {
   id: number;
   name: string;
-  price: number;
+  price: Money;
   quantity: number;
   category: string;
   description?: string;
+  // Reorder once quantity falls below this; unset falls back to the
+  // category's threshold, then the default (see REORDER in config)
+  reorderThreshold?: number;
+  // Bumped on every change; clients send it back to detect stale writes
+  version: number;
   createdAt?: Date;
   updatedAt?: Date;
+  deletedAt?: Date;
+}
+
+// Fields a caller supplies when creating a product; the store assigns the rest
+export type ProductInput = Omit<
+  Product,
+  'id' | 'version' | 'createdAt' | 'updatedAt' | 'deletedAt'
+>;
+
+// Text fields `searchTerm` can be matched against
+export type SearchField = 'name' | 'category' | 'description';
+
+// Column filters from the URL; every filter that is set has to match
+export interface ProductFilters {
+  nameContains?: string;
+  categoryContains?: string;
+  descriptionContains?: string;
+  // In the base currency, whichever currency the page displays
+  minPrice?: number;
+  maxPrice?: number;
+  minQuantity?: number;
+  maxQuantity?: number;
+  // Exact category names; a product matches if it is in any of them
+  categories?: string[];
+  // Only products below their reorder threshold
+  lowStock?: boolean;
+}
+
+// A category in the facet sidebar with how many products match the search
+export interface CategoryFacet {
+  category: string;
+  count: number;
 }
 
 export interface PaginationParams {
@@ -18,6 +72,35 @@ export interface PaginationParams {
   totalPages: number;
   hasNext: boolean;
   hasPrev: boolean;
+  // Cursor mode only: pass as ?after= / ?before= for the next/previous page,
+  // null at either end of the rows
+  nextCursor?: string | null;
+  prevCursor?: string | null;
+  // Cursor mode only: the last row shown, whether or not more follow
+  lastCursor?: string | null;
+  // Cursor mode only: matching rows ahead of this page
+  offset?: number;
+}
+
+// Opaque keyset cursors. Any of these params being present, even empty, pages
+// by cursor instead of by number; an empty ?after= is the first page.
+export interface CursorParams {
+  after?: string;
+  before?: string;
+  // Every row from the first up to and including this one: how far a
+  // scrolling table has loaded
+  through?: string;
+}
+
+// Numbered/cursor pages, or rows appended as the table scrolls
+export type TableView = 'pages' | 'scroll';
+
+// Columns the table can be sorted by; subtotal is computed
+export type SortField = 'id' | 'name' | 'category' | 'price' | 'quantity' | 'subtotal';
+
+export interface SortKey {
+  field: SortField;
+  order: SortOrder;
 }
 
 export interface SortParams {
@@ -25,12 +108,30 @@ export interface SortParams {
   sortOrder: 'asc' | 'desc';
 }
 
+// Money amounts are in the base currency (CURRENCY.BASE)
 export interface ProductTotals {
-  totalPrice: number;
+  totalPrice: Money;
   totalQuantity: number;
-  grandTotal: number;
-  averagePrice: number;
+  grandTotal: Money;
+  averagePrice: Money;
+  productCount: number;
+  // Products below their reorder threshold
+  lowStockCount: number;
+  byCategory: CategoryTotals[];
+}
+
+// Totals of the rows matching the current search and filters, next to the
+// whole inventory
+export interface TableTotals {
+  filtered: ProductTotals;
+  all: ProductTotals;
+}
+
+export interface CategoryTotals {
+  category: string;
   productCount: number;
+  totalQuantity: number;
+  grandTotal: Money;
 }
 
 // Type aliases for better readability